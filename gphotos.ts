@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * gphotos CLI entry point. Run `gphotos --help` for the commands.
+ * Chrome must already be running with remote debugging (e.g. run.sh).
+ */
+import { main } from './src/cli.js';
+
+// Exit explicitly: an attached CDP connection would otherwise keep the process alive
+process.exit(await main(process.argv.slice(2)));
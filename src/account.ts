@@ -0,0 +1,44 @@
+import { readFile } from 'fs/promises';
+import { AccountMismatchError } from './errors.js';
+import type { PhotoViewer } from './photo-viewer.js';
+
+/** First account recorded in a log (every entry carries the account it was logged from). */
+export async function readRecordedAccount(logFile: string): Promise<string | null> {
+  let content: string;
+  try {
+    content = await readFile(logFile, 'utf8');
+  } catch {
+    return null;
+  }
+  for (const line of content.split('\n')) {
+    if (!line.includes('"account"')) continue;
+    try {
+      const { account } = JSON.parse(line) as { account?: string | null };
+      if (account) return account.toLowerCase();
+    } catch {
+      // unparsable lines are reported by the readers
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare the signed-in account with the expected one (profile account, else the one
+ * recorded in the log) and throw on a mismatch. Resolves to the signed-in account.
+ * The viewer must be on a Google Photos page.
+ */
+export async function verifyAccount(viewer: PhotoViewer, expected: string | null): Promise<string | null> {
+  const active = await viewer.readAccount();
+  if (!expected) {
+    console.warn(`⚠ No account configured or recorded in the log; signed in as ${active ?? 'unknown account'}`);
+    return active;
+  }
+  if (!active) {
+    throw new AccountMismatchError(`Cannot read the signed-in Google account; expected ${expected}. Refusing to continue.`);
+  }
+  if (active !== expected.toLowerCase()) {
+    throw new AccountMismatchError(`Chrome is signed in as ${active}, but this log/profile belongs to ${expected}. Refusing to continue.`);
+  }
+  console.log(`Signed in as ${active}`);
+  return active;
+}
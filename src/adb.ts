@@ -0,0 +1,67 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { DeviceUnavailableError, GphotosError } from './errors.js';
+
+/** Which adb to run, against which phone, and where the photos go on it. */
+export type AdbTarget = {
+  adb: string; // executable, a path or a name on PATH
+  device: string | null; // serial (adb -s); null: the only connected device
+  remoteDir: string;
+};
+
+const PUSH_TIMEOUT_MS = 10 * 60 * 1000;
+const SHELL_TIMEOUT_MS = 30 * 1000;
+
+/** Quote for the phone's sh: adb shell joins its arguments into one command line. */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function run(target: AdbTarget, args: string[], timeout: number): Promise<string> {
+  const fullArgs = target.device ? ['-s', target.device, ...args] : args;
+  return new Promise((resolve, reject) => {
+    execFile(target.adb, fullArgs, { timeout }, (error, stdout, stderr) => {
+      if (!error) return resolve(stdout);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return reject(new DeviceUnavailableError(`adb not found: ${target.adb} (set "adb" in the config or --adb)`));
+      }
+      const output = `${stderr}${stdout}`.trim().split('\n').pop() || error.message;
+      reject(new GphotosError(`adb ${args[0]} failed: ${output}`));
+    });
+  });
+}
+
+/** Throw DeviceUnavailableError unless the phone is connected and authorized. */
+export async function checkDevice(target: AdbTarget): Promise<void> {
+  const state = await run(target, ['get-state'], SHELL_TIMEOUT_MS).catch((error: Error) => {
+    if (error instanceof DeviceUnavailableError) throw error;
+    throw new DeviceUnavailableError(`No phone: ${error.message}`);
+  });
+  if (state.trim() !== 'device') {
+    throw new DeviceUnavailableError(`Phone ${target.device ?? ''} is ${state.trim()}, not ready (unlock it and allow USB debugging)`);
+  }
+}
+
+export function remotePath(target: AdbTarget, localFile: string): string {
+  return path.posix.join(target.remoteDir, path.basename(localFile));
+}
+
+/** Copy a file into the remote dir; resolves to its path on the phone. */
+export async function push(target: AdbTarget, localFile: string): Promise<string> {
+  await run(target, ['push', localFile, `${target.remoteDir}/`], PUSH_TIMEOUT_MS);
+  return remotePath(target, localFile);
+}
+
+/** Size of a file on the phone in bytes (adb shell stat), or null if it is not there. */
+export async function remoteSize(target: AdbTarget, file: string): Promise<number | null> {
+  const output = await run(target, ['shell', `stat -c %s ${shellQuote(file)} 2>/dev/null || echo missing`], SHELL_TIMEOUT_MS);
+  const size = parseInt(output.trim(), 10);
+  return isNaN(size) ? null : size;
+}
+
+/** Ask the phone's media scanner to pick up the file, so Google Photos backs it up. */
+export async function mediaScan(target: AdbTarget, file: string): Promise<void> {
+  await run(target, [
+    'shell', `am broadcast -a android.intent.action.MEDIA_SCANNER_SCAN_FILE -d ${shellQuote(`file://${file}`)}`,
+  ], SHELL_TIMEOUT_MS);
+}
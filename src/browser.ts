@@ -0,0 +1,30 @@
+import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { BrowserUnavailableError } from './errors.js';
+
+export type Session = {
+  browser: Browser;
+  context: BrowserContext;
+  page: Page;
+};
+
+/** Attach to an already running Chrome (see run.sh) and reuse its first tab. */
+export async function connect(endpoint: string): Promise<Session> {
+  let browser: Browser;
+  try {
+    browser = await chromium.connectOverCDP(endpoint);
+  } catch (error) {
+    throw new BrowserUnavailableError(`Cannot connect to Chrome at ${endpoint} (is it running with --remote-debugging-port?): ${(error as Error).message}`);
+  }
+  const context = browser.contexts()[0]; // уже существующий
+  const page = context.pages()[0] || await context.newPage();
+  return { browser, context, page };
+}
+
+/** CDP: Page.setDownloadBehavior, so Shift+D downloads land in downloadPath. */
+export async function setDownloadDir(session: Session, downloadPath: string): Promise<void> {
+  const client = await session.context.newCDPSession(session.page);
+  await client.send('Page.setDownloadBehavior', {
+    behavior: 'allow',
+    downloadPath,
+  });
+}
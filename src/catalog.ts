@@ -0,0 +1,202 @@
+import { open, readFile, stat } from 'fs/promises';
+import type { Profile } from './config.js';
+import { isLogUpdate, updateProblem } from './journal.js';
+import { isLogHeader, replaceLog } from './log-header.js';
+import { EntryKind, parseEntry } from './log-schema.js';
+import { cameraOf } from './metadata.js';
+import type { PhotoMetadata, StorageClass } from './types.js';
+
+/** Logs the catalog is built from. */
+const SOURCES = ['scan', 'photo', 'date'] as const;
+type Source = typeof SOURCES[number];
+
+const ENTRY_KINDS: Record<Source, EntryKind> = { scan: 'photo', photo: 'photo', date: 'date' };
+
+/** Everything the logs know about one photo id, merged. */
+export type CatalogRecord = {
+  id: string;
+  filename: string | null;
+  account: string | null;
+  storage: StorageClass | null;
+  fileSize: string | null;
+  fileSizeBytes: number | null;
+  dimensions: string | null;
+  camera: string | null; // "Google Pixel 7"
+  dateTaken: string | null;
+  metadataDate: string | null;
+  filenameDate: string | null;
+  targetDate: string | null;
+  downloaded: boolean;
+  deleted: boolean;
+  processed: boolean;
+  recoverableBytes: number | null;
+  logs: Source[]; // which logs have the photo
+};
+
+type LogFields = Partial<Omit<CatalogRecord, 'id' | 'camera' | 'logs'>> & { id?: string | null; metadata?: PhotoMetadata };
+
+const FIELDS = [
+  'filename', 'account', 'storage', 'fileSize', 'fileSizeBytes', 'dimensions', 'dateTaken', 'metadataDate',
+  'filenameDate', 'targetDate', 'downloaded', 'deleted', 'processed', 'recoverableBytes',
+] as const;
+
+const BOOLEAN_FIELDS: string[] = ['downloaded', 'deleted', 'processed'];
+
+/** How far each log has been read: a log that was replaced (compact, migrate) or shrank is read again. */
+type SourceState = { file: string; ino: number; size: number; account: string | null };
+
+/**
+ * catalog.json: one record per photo id, an index from lower-cased filename to ids, and how
+ * far each log has been read. The logs are append-only, so an update only reads what was appended.
+ */
+export type Catalog = {
+  version: 2;
+  updatedAt: string;
+  sources: Partial<Record<Source, SourceState>>;
+  photos: Record<string, CatalogRecord>;
+  byFilename: Record<string, string[]>;
+};
+
+function emptyCatalog(): Catalog {
+  return { version: 2, updatedAt: new Date().toISOString(), sources: {}, photos: {}, byFilename: {} };
+}
+
+function emptyRecord(id: string): CatalogRecord {
+  return {
+    id, filename: null, account: null, storage: null, fileSize: null, fileSizeBytes: null, dimensions: null,
+    camera: null, dateTaken: null, metadataDate: null, filenameDate: null, targetDate: null,
+    downloaded: false, deleted: false, processed: false, recoverableBytes: null, logs: [],
+  };
+}
+
+function index(catalog: Catalog, record: CatalogRecord, previousFilename: string | null): void {
+  if (previousFilename === record.filename) return;
+  if (previousFilename) {
+    const key = previousFilename.toLowerCase();
+    const ids = (catalog.byFilename[key] ?? []).filter((id) => id !== record.id);
+    if (ids.length) catalog.byFilename[key] = ids;
+    else delete catalog.byFilename[key];
+  }
+  if (record.filename) {
+    const key = record.filename.toLowerCase();
+    catalog.byFilename[key] = [...catalog.byFilename[key] ?? [], record.id];
+  }
+}
+
+/** Later lines win; null and missing fields do not erase what an earlier line said. */
+function merge(catalog: Catalog, id: string, fields: LogFields, source: Source | null): void {
+  const record = catalog.photos[id] ?? emptyRecord(id);
+  const previousFilename = catalog.photos[id] ? record.filename : null;
+  for (const field of FIELDS) {
+    const value = fields[field];
+    if (value != null) (record as Record<string, unknown>)[field] = value;
+  }
+  record.camera = cameraOf(fields.metadata) ?? record.camera;
+  if (source && !record.logs.includes(source)) record.logs.push(source);
+  catalog.photos[id] = record;
+  index(catalog, record, previousFilename);
+}
+
+/**
+ * Fold the complete lines of `content` (a whole log or what was appended to it) into the
+ * catalog. Update lines change only the record of their id. Entries without an account
+ * get the one of the header above them; resolves to the account of the last header.
+ */
+function foldLines(catalog: Catalog, source: Source, content: string, account: string | null): string | null {
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue; // reported by the commands that read the log
+    }
+    if (isLogHeader(parsed)) {
+      account = parsed.account ?? null;
+      continue;
+    }
+    if (isLogUpdate(parsed)) {
+      const record = catalog.photos[parsed.id];
+      if (updateProblem(parsed) || !record) continue;
+      const previousFilename = record.filename;
+      const fields = record as Record<string, unknown>;
+      for (const [field, value] of Object.entries(parsed.set)) {
+        if ((FIELDS as readonly string[]).includes(field)) fields[field] = value;
+      }
+      for (const field of parsed.unset ?? []) {
+        if ((FIELDS as readonly string[]).includes(field)) fields[field] = BOOLEAN_FIELDS.includes(field) ? false : null;
+      }
+      index(catalog, record, previousFilename);
+      continue;
+    }
+    const result = parseEntry<LogFields>(ENTRY_KINDS[source], parsed);
+    if ('error' in result || !result.entry.id) continue;
+    merge(catalog, result.entry.id, { ...result.entry, account: result.entry.account ?? account }, source);
+  }
+  return account;
+}
+
+async function readFrom(file: string, offset: number, length: number): Promise<string> {
+  const handle = await open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, offset);
+    return buffer.toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readCatalog(file: string): Promise<Catalog | null> {
+  try {
+    const catalog = JSON.parse(await readFile(file, 'utf8')) as Catalog;
+    return catalog.version === 2 ? catalog : null; // older versions are rebuilt
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bring the profile's catalog up to date with its scan, photo and date logs and return it.
+ * Reads only the lines appended since the last update; if a log was replaced or shrank,
+ * the whole catalog is rebuilt. Only complete lines are read, so a log being written is fine.
+ */
+export async function updateCatalog(profile: Profile): Promise<Catalog> {
+  const current: Partial<Record<Source, SourceState>> = {};
+  for (const source of SOURCES) {
+    const file = profile.logs[source];
+    const info = await stat(file).catch(() => null);
+    if (info) current[source] = { file, ino: info.ino, size: info.size, account: null };
+  }
+
+  const stored = await readCatalog(profile.catalog);
+  const appendedOnly = stored && SOURCES.every((source) => {
+    const before = stored.sources[source];
+    const now = current[source];
+    if (!before) return true;
+    return !!now && now.file === before.file && now.ino === before.ino && now.size >= before.size;
+  });
+  const catalog = appendedOnly ? stored : emptyCatalog();
+
+  let changed = !appendedOnly;
+  for (const source of SOURCES) {
+    const now = current[source];
+    if (!now) {
+      delete catalog.sources[source];
+      continue;
+    }
+    const from = catalog.sources[source]?.size ?? 0;
+    if (now.size === from) continue;
+    const content = await readFrom(now.file, from, now.size - from);
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    const account = foldLines(catalog, source, complete, catalog.sources[source]?.account ?? null);
+    catalog.sources[source] = { ...now, size: from + Buffer.byteLength(complete), account };
+    changed = true;
+  }
+
+  if (changed) {
+    catalog.updatedAt = new Date().toISOString();
+    await replaceLog(profile.catalog, JSON.stringify(catalog) + '\n');
+  }
+  return catalog;
+}
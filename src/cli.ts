@@ -0,0 +1,608 @@
+import path from 'path';
+import { mkdir } from 'fs/promises';
+import { parseArgs } from 'util';
+import { chrome } from './commands/chrome.js';
+import { clean } from './commands/clean.js';
+import { compact } from './commands/compact.js';
+import { applyDates } from './commands/dates-apply.js';
+import { resolveDates } from './commands/dates-resolve.js';
+import { scanDates } from './commands/dates-scan.js';
+import { deleteFromLog } from './commands/delete.js';
+import { inventoryCoverage } from './commands/inventory-coverage.js';
+import { scanInventory } from './commands/inventory-scan.js';
+import { migrate } from './commands/migrate.js';
+import { match } from './commands/match.js';
+import { merge } from './commands/merge.js';
+import { upload } from './commands/upload.js';
+import { reconcile } from './commands/reconcile.js';
+import { restore, RestoreSelection } from './commands/restore.js';
+import { query, QueryFilters, QUERY_STATUSES, QueryStatus } from './commands/query.js';
+import { report } from './commands/report.js';
+import { scan } from './commands/scan.js';
+import type { DateRange, Direction } from './date-range.js';
+import { Config, DEFAULT_CONFIG_FILE, loadConfig, LogKind, Profile, resolveProfile } from './config.js';
+import { ConfigError, ExitCode, GphotosError, UsageError } from './errors.js';
+import { lockLog } from './log-lock.js';
+import { finishRun, RunStats, startRun } from './run-stats.js';
+import { LIBRARY, normalizeAlbumUrl, Scope } from './scope.js';
+import type { AdbTarget } from './adb.js';
+import { parseSize } from './sizes.js';
+import { updateCatalog } from './catalog.js';
+
+/** Resolved flags every command receives; explicit flags win over the profile. */
+export type CommandOptions = {
+  profile: Profile;
+  cdp: string;
+  log: string;
+  downloadDir: string;
+  doneDir: string;
+  startId: string | null;
+  photoLog: string;
+  freshLog: string | null;
+  chrome: string;
+  dryRun: boolean;
+  format: OutputFormat;
+  output: string | null;
+  top: number;
+  policyFile: string | null;
+  dateRange: DateRange;
+  direction: Direction;
+  incremental: boolean;
+  useInventory: boolean;
+  scope: Scope;
+  query: QueryFilters;
+  adb: AdbTarget;
+  restore: RestoreSelection;
+};
+
+export type OutputFormat = 'text' | 'csv' | 'html' | 'json';
+
+type Flag = 'cdp' | 'log' | 'download-dir' | 'done-dir' | 'start-id' | 'photo-log' | 'dry-run' | 'format' | 'output' | 'top' | 'policy'
+  | 'from-date' | 'to-date' | 'direction' | 'incremental' | 'inventory'
+  | 'album' | 'search'
+  | 'filename' | 'min-size' | 'max-size' | 'status' | 'min-date-diff'
+  | 'adb' | 'device' | 'remote-dir' | 'fresh-log'
+  | 'ids' | 'run' | 'deleted-after';
+
+type CommandSpec = {
+  name: string;
+  summary: string;
+  flags: Flag[];
+  log: LogKind | null; // which profile log --log defaults to
+  logs?: LogKind[]; // with log: null, the profile logs read when --log is not given
+  formats?: OutputFormat[]; // what --format accepts, the first is the default
+  tracksRun: boolean; // append the run's totals to the profile's runs.log and lock the log while running
+  run: (options: CommandOptions, run: RunStats) => Promise<void>;
+};
+
+const DEFAULT_CHROME = process.platform === 'darwin'
+  ? '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome'
+  : 'google-chrome';
+
+const COMMANDS: CommandSpec[] = [
+  {
+    name: 'scan',
+    summary: 'Walk all photos, download non-free ones, log every photo',
+    flags: ['cdp', 'log', 'download-dir', 'start-id', 'policy', 'from-date', 'to-date', 'direction', 'incremental', 'inventory', 'album', 'search'],
+    log: 'scan',
+    tracksRun: true,
+    run: scan,
+  },
+  {
+    name: 'delete',
+    summary: 'Move downloaded, not yet deleted photos from a scan log to trash',
+    flags: ['cdp', 'log', 'download-dir', 'done-dir', 'dry-run', 'policy'],
+    log: 'scan',
+    tracksRun: true,
+    run: deleteFromLog,
+  },
+  {
+    name: 'restore',
+    summary: 'Take trashed photos of a log back out of trash: by id, by run, by deletion time or by filename',
+    flags: ['cdp', 'log', 'ids', 'run', 'deleted-after', 'filename', 'dry-run'],
+    log: 'scan',
+    tracksRun: true,
+    run: restore,
+  },
+  {
+    name: 'upload',
+    summary: 'Push the downloads to an Android phone with adb to re-upload them, record pushed: true',
+    flags: ['log', 'photo-log', 'download-dir', 'done-dir', 'dry-run', 'adb', 'device', 'remote-dir'],
+    log: 'scan',
+    tracksRun: true,
+    run: upload,
+  },
+  {
+    name: 'reconcile',
+    summary: 'Check that each trashed original came back as a free photo in a fresh scan',
+    flags: ['log', 'fresh-log'],
+    log: 'scan',
+    tracksRun: false,
+    run: reconcile,
+  },
+  {
+    name: 'clean',
+    summary: 'Single pass: download and trash each non-free photo as it is found',
+    flags: ['cdp', 'log', 'download-dir', 'start-id', 'dry-run', 'policy', 'from-date', 'to-date', 'direction', 'album', 'search'],
+    log: 'photo',
+    tracksRun: true,
+    run: clean,
+  },
+  {
+    name: 'dates scan',
+    summary: 'Walk all photos, log metadata date and filename date',
+    flags: ['cdp', 'log', 'start-id', 'from-date', 'to-date', 'direction', 'inventory', 'album', 'search'],
+    log: 'date',
+    tracksRun: true,
+    run: scanDates,
+  },
+  {
+    name: 'match',
+    summary: 'Link re-uploaded photos to their trashed originals (idmap.json) and list ambiguous ones',
+    flags: ['log', 'photo-log'],
+    log: 'date',
+    tracksRun: false,
+    run: match,
+  },
+  {
+    name: 'dates resolve',
+    summary: 'Look up the original date of mismatched photos in trash (targetDate)',
+    flags: ['cdp', 'log', 'photo-log'],
+    log: 'date',
+    tracksRun: true,
+    run: resolveDates,
+  },
+  {
+    name: 'dates apply',
+    summary: 'Set "Date taken" to targetDate for unprocessed entries',
+    flags: ['cdp', 'log'],
+    log: 'date',
+    tracksRun: true,
+    run: applyDates,
+  },
+  {
+    name: 'inventory scan',
+    summary: 'Scroll the grid and list every photo id in grid order, without opening photos',
+    flags: ['cdp', 'log', 'album', 'search'],
+    log: 'inventory',
+    tracksRun: true,
+    run: scanInventory,
+  },
+  {
+    name: 'inventory coverage',
+    summary: 'Show which inventory photos no scan, photo or date log has visited yet',
+    flags: ['log', 'top', 'output'],
+    log: 'inventory',
+    tracksRun: false,
+    run: inventoryCoverage,
+  },
+  {
+    name: 'report',
+    summary: 'Summarize the scan log and photo log: free / non-free, deleted / pending, by month and filename',
+    flags: ['log', 'format', 'output', 'top'],
+    log: null,
+    logs: ['scan', 'photo'],
+    formats: ['text', 'csv', 'html'],
+    tracksRun: false,
+    run: report,
+  },
+  {
+    name: 'query',
+    summary: 'List photos of the catalog by filename, size, date, status and date difference',
+    flags: ['filename', 'min-size', 'max-size', 'from-date', 'to-date', 'status', 'min-date-diff', 'format', 'output'],
+    log: null,
+    logs: ['scan', 'photo', 'date'],
+    formats: ['json', 'csv'],
+    tracksRun: false,
+    run: query,
+  },
+  {
+    name: 'merge',
+    summary: 'Join the scan, photo and date logs into merged.json, one record per photo, and list conflicts',
+    flags: ['output'],
+    log: null,
+    logs: ['scan', 'photo', 'date'],
+    tracksRun: false,
+    run: merge,
+  },
+  {
+    name: 'migrate',
+    summary: 'Rewrite old scan, photo and date logs in the current log schema; list bad lines',
+    flags: ['log', 'dry-run'],
+    log: null,
+    logs: ['scan', 'photo', 'date'],
+    tracksRun: false,
+    run: migrate,
+  },
+  {
+    name: 'compact',
+    summary: 'Fold the update lines of the scan, photo and date logs into their entries',
+    flags: ['log'],
+    log: null,
+    logs: ['scan', 'photo', 'date'],
+    tracksRun: false,
+    run: compact,
+  },
+  {
+    name: 'chrome',
+    summary: 'Start Chrome with the profile\'s CDP port and user-data-dir',
+    flags: ['cdp'],
+    log: null,
+    tracksRun: false,
+    run: chrome,
+  },
+];
+
+const LOG_NAMES: Record<LogKind, string> = {
+  scan: 'non-free-photos.log',
+  photo: 'photolog.json',
+  date: 'datelog.json',
+  inventory: 'inventory.log',
+};
+
+const FLAG_HELP: Record<Flag, string> = {
+  'cdp': '--cdp <url>            Chrome DevTools endpoint (default: profile, else http://localhost:9223)',
+  'log': '--log <path>           Log file to read/append',
+  'download-dir': '--download-dir <dir>   Where downloads are saved (default: profile downloads)',
+  'done-dir': '--done-dir <dir>       Where re-uploaded downloads are moved (default: profile done)',
+  'start-id': '--start-id <id>        Photo id to start from instead of the log checkpoint',
+  'photo-log': '--photo-log <path>     photolog.json: trashed originals (match, dates resolve), clean downloads (upload); default: profile photolog.json',
+  'fresh-log': '--fresh-log <path>     Scan log of the library after the re-upload (default: the --log itself)',
+  'ids': '--ids <list>           Comma-separated photo ids',
+  'run': '--run <runId>          Photos trashed by this run of runs.log',
+  'deleted-after': '--deleted-after <time> Photos trashed after this date or ISO time',
+  'dry-run': '--dry-run              Change nothing: delete / clean read the trash dialog and cancel, migrate and upload only report',
+  'format': '--format <format>      report: text, csv or html (default: text); query: json or csv (default: json)',
+  'output': '--output <path>        Write to a file instead of stdout (merge: instead of merged.json)',
+  'top': '--top <n>              How many photos to list: largest non-free / not visited (default: 20)',
+  'from-date': '--from-date <date>     Only photos taken on or after YYYY-MM-DD',
+  'to-date': '--to-date <date>       Only photos taken on or before YYYY-MM-DD',
+  'direction': '--direction <dir>      right: newest to oldest (default), left: oldest to newest',
+  'album': '--album <url>          Only this album or shared album (its photos.google.com URL)',
+  'search': '--search <query>       Only the photos this search finds, e.g. "screenshots"',
+  'incremental': '--incremental          Only new uploads: from the newest photo to the first one already logged',
+  'inventory': '--inventory            Open the photos of inventory.log not yet in the log by id instead of walking',
+  'filename': '--filename <glob>      Only photos whose filename matches, * and ? as wildcards',
+  'min-size': '--min-size <size>      Only photos at least this large: bytes or "5 MB"',
+  'max-size': '--max-size <size>      Only photos at most this large',
+  'status': `--status <list>        Comma-separated, all must hold: ${QUERY_STATUSES.join(', ')}`,
+  'min-date-diff': '--min-date-diff <h>    Only photos whose filename and metadata dates differ by at least h hours',
+  'adb': '--adb <path>           adb executable (default: "adb" in the config, else adb from PATH)',
+  'device': '--device <serial>      Phone to push to, as listed by adb devices (default: profile device)',
+  'remote-dir': '--remote-dir <dir>     Folder on the phone (default: profile remoteDir, else /sdcard/DCIM/Camera)',
+  'policy': '--policy <path>        Selection policy: which photos to download / delete (default: profile policy)',
+};
+
+export function usage(command?: CommandSpec): string {
+  if (command) {
+    const lines = [`Usage: gphotos ${command.name} [options]`, '', command.summary, '', 'Options:'];
+    for (const flag of command.flags) lines.push(`  ${FLAG_HELP[flag]}`);
+    lines.push(`  --profile <name>       Profile from the config file (default: its defaultProfile)`);
+    lines.push(`  --config <path>        Config file (default ${DEFAULT_CONFIG_FILE})`);
+    lines.push(`  --help                 Show this help`);
+    if (command.log) lines.push('', `Default log: ${LOG_NAMES[command.log]} in the profile directory`);
+    else if (command.logs) {
+      const names = command.logs.map((kind) => LOG_NAMES[kind]);
+      lines.push('', `Default logs: ${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} in the profile directory`);
+    }
+    return lines.join('\n');
+  }
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  return [
+    'Usage: gphotos <command> [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map((c) => `  ${c.name.padEnd(width)}  ${c.summary}`),
+    '',
+    'Run `gphotos <command> --help` for the options of a command.',
+    '',
+    'Exit codes:',
+    `  ${ExitCode.OK}   done`,
+    `  ${ExitCode.ERROR}   unexpected error`,
+    `  ${ExitCode.USAGE}  invalid command line`,
+    `  ${ExitCode.UNAVAILABLE}  cannot connect to Chrome`,
+    `  ${ExitCode.LOCKED}  the log is in use by another gphotos command`,
+    `  ${ExitCode.STUCK}  navigation stuck, run again to resume`,
+    `  ${ExitCode.ACCOUNT}  Chrome is signed in to another Google account`,
+    `  ${ExitCode.CONFIG}  invalid config file or unknown profile`,
+    `  ${ExitCode.INTERRUPTED} interrupted (Ctrl+C)`,
+  ].join('\n');
+}
+
+function findCommand(positionals: string[]): CommandSpec {
+  if (positionals.length === 0) throw new UsageError('No command given');
+  const name = positionals.join(' ');
+  const command = COMMANDS.find((c) => c.name === name);
+  if (!command) throw new UsageError(`Unknown command: ${name}`);
+  return command;
+}
+
+function validateCdp(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UsageError(`--cdp must be a URL, got: ${value}`);
+  }
+  if (!['http:', 'https:', 'ws:', 'wss:'].includes(url.protocol)) {
+    throw new UsageError(`--cdp must be an http(s) or ws(s) URL, got: ${value}`);
+  }
+  return value;
+}
+
+function validateFormat(value: string | undefined, formats: OutputFormat[]): OutputFormat {
+  if (value == null) return formats[0];
+  if (!formats.includes(value as OutputFormat)) throw new UsageError(`--format must be ${formats.join(', ')}, got: ${value}`);
+  return value as OutputFormat;
+}
+
+function validateSize(flag: string, value: string | undefined): number | null {
+  if (value == null) return null;
+  const bytes = /^\d+$/.test(value.trim()) ? Number(value) : parseSize(value);
+  if (bytes == null) throw new UsageError(`--${flag} must be bytes or a size like "5 MB", got: ${value}`);
+  return bytes;
+}
+
+function validateStatus(value: string | undefined): QueryStatus[] {
+  if (value == null) return [];
+  const statuses = value.split(',').map((s) => s.trim()).filter(Boolean);
+  for (const status of statuses) {
+    if (!QUERY_STATUSES.includes(status as QueryStatus)) {
+      throw new UsageError(`--status takes ${QUERY_STATUSES.join(', ')}; got: ${status}`);
+    }
+  }
+  return statuses as QueryStatus[];
+}
+
+function validateHours(value: string | undefined): number | null {
+  if (value == null) return null;
+  const hours = Number(value);
+  if (!value.trim() || isNaN(hours) || hours < 0) throw new UsageError(`--min-date-diff must be a number of hours, got: ${value}`);
+  return hours;
+}
+
+function validateCount(flag: string, value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count <= 0) throw new UsageError(`--${flag} must be a positive integer, got: ${value}`);
+  return count;
+}
+
+function validateDate(flag: string, value: string | undefined): string | null {
+  if (value == null) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new UsageError(`--${flag} must be a date like 2023-12-31, got: ${value}`);
+  }
+  return value;
+}
+
+function validateDateRange(from: string | undefined, to: string | undefined): DateRange {
+  const range = { from: validateDate('from-date', from), to: validateDate('to-date', to) };
+  if (range.from && range.to && range.from > range.to) throw new UsageError('--from-date is after --to-date');
+  return range;
+}
+
+function validateDirection(value: string): Direction {
+  if (value !== 'left' && value !== 'right') throw new UsageError(`--direction must be left or right, got: ${value}`);
+  return value;
+}
+
+function validateScope(album: string | undefined, search: string | undefined): Scope {
+  if (album != null && search != null) throw new UsageError('Use either --album or --search, not both');
+  if (search != null) {
+    if (!search.trim()) throw new UsageError('--search needs a query');
+    return { kind: 'search', query: search.trim() };
+  }
+  if (album != null) {
+    const url = normalizeAlbumUrl(album);
+    if (!url) throw new UsageError(`--album must be a https://photos.google.com/album/… or /share/… URL, got: ${album}`);
+    return { kind: 'album', url };
+  }
+  return LIBRARY;
+}
+
+function validatePhotoId(value: string, flag = 'start-id'): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) {
+    throw new UsageError(`--${flag} does not look like a photo id: ${value}`);
+  }
+  return value;
+}
+
+function validateIds(value: string | undefined): string[] {
+  if (value == null) return [];
+  return value.split(',').map((id) => id.trim()).filter(Boolean).map((id) => validatePhotoId(id, 'ids'));
+}
+
+function validateTime(flag: string, value: string | undefined): string | null {
+  if (value == null) return null;
+  const time = new Date(value);
+  if (!value.trim() || isNaN(time.getTime())) throw new UsageError(`--${flag} must be a date or ISO time, got: ${value}`);
+  return time.toISOString();
+}
+
+type FlagValues = {
+  [K in Flag | 'profile' | 'config']?: K extends 'dry-run' | 'incremental' | 'inventory' ? boolean : string;
+};
+
+export type ParsedCommandLine =
+  | { help: true; command?: CommandSpec }
+  | { help: false; command: CommandSpec; values: FlagValues };
+
+/** Parse argv (without node and script path) and check the flags against the command. */
+export function parseCommandLine(argv: string[]): ParsedCommandLine {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        'cdp': { type: 'string' },
+        'log': { type: 'string' },
+        'download-dir': { type: 'string' },
+        'done-dir': { type: 'string' },
+        'start-id': { type: 'string' },
+        'photo-log': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        'incremental': { type: 'boolean' },
+        'inventory': { type: 'boolean' },
+        'album': { type: 'string' },
+        'filename': { type: 'string' },
+        'min-size': { type: 'string' },
+        'max-size': { type: 'string' },
+        'status': { type: 'string' },
+        'min-date-diff': { type: 'string' },
+        'adb': { type: 'string' },
+        'device': { type: 'string' },
+        'remote-dir': { type: 'string' },
+        'fresh-log': { type: 'string' },
+        'ids': { type: 'string' },
+        'run': { type: 'string' },
+        'deleted-after': { type: 'string' },
+        'search': { type: 'string' },
+        'format': { type: 'string' },
+        'output': { type: 'string' },
+        'top': { type: 'string' },
+        'policy': { type: 'string' },
+        'from-date': { type: 'string' },
+        'to-date': { type: 'string' },
+        'direction': { type: 'string' },
+        'profile': { type: 'string' },
+        'config': { type: 'string' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values: { help, ...values }, positionals } = parsed;
+
+  if (help) {
+    return { help: true, command: positionals.length ? findCommand(positionals) : undefined };
+  }
+
+  const command = findCommand(positionals);
+  for (const flag of Object.keys(values)) {
+    if (flag !== 'profile' && flag !== 'config' && !command.flags.includes(flag as Flag)) {
+      throw new UsageError(`Option --${flag} is not supported by "${command.name}"`);
+    }
+  }
+  return { help: false, command, values };
+}
+
+/** Combine validated flags with the selected profile. */
+export function resolveOptions(command: CommandSpec, values: FlagValues, profile: Profile, config: Config | null): CommandOptions {
+  const log = values['log'] ?? (command.log ? profile.logs[command.log] : '');
+  return {
+    profile,
+    cdp: validateCdp(values['cdp'] ?? profile.cdp),
+    log: log && path.resolve(log),
+    downloadDir: path.resolve(values['download-dir'] ?? profile.downloadDir),
+    doneDir: path.resolve(values['done-dir'] ?? profile.doneDir),
+    startId: values['start-id'] != null ? validatePhotoId(values['start-id']) : null,
+    photoLog: path.resolve(values['photo-log'] ?? profile.logs.photo),
+    freshLog: values['fresh-log'] != null ? path.resolve(values['fresh-log']) : null,
+    chrome: config?.chrome ?? DEFAULT_CHROME,
+    dryRun: values['dry-run'] === true,
+    format: validateFormat(values['format'], command.formats ?? ['text']),
+    output: values['output'] != null ? path.resolve(values['output']) : null,
+    top: validateCount('top', values['top'] ?? '20'),
+    policyFile: values['policy'] != null ? path.resolve(values['policy']) : profile.policy,
+    dateRange: validateDateRange(values['from-date'], values['to-date']),
+    direction: validateDirection(values['direction'] ?? 'right'),
+    incremental: values['incremental'] === true,
+    useInventory: values['inventory'] === true,
+    scope: validateScope(values['album'], values['search']),
+    query: {
+      filename: values['filename'] ?? null,
+      minSize: validateSize('min-size', values['min-size']),
+      maxSize: validateSize('max-size', values['max-size']),
+      status: validateStatus(values['status']),
+      minDateDiff: validateHours(values['min-date-diff']),
+    },
+    restore: {
+      ids: validateIds(values['ids']),
+      runId: values['run'] ?? null,
+      deletedAfter: validateTime('deleted-after', values['deleted-after']),
+    },
+    adb: {
+      adb: values['adb'] ?? config?.adb ?? 'adb',
+      device: values['device'] ?? profile.device,
+      remoteDir: values['remote-dir'] ?? profile.remoteDir,
+    },
+  };
+}
+
+function exitCodeOf(error: unknown): ExitCode {
+  return error instanceof GphotosError ? error.exitCode : ExitCode.ERROR;
+}
+
+/**
+ * Run a command and append its totals to the run log however it ends, Ctrl+C included.
+ * The command's log is locked meanwhile, so a second command cannot write it at the same time.
+ */
+async function execute(command: CommandSpec, options: CommandOptions): Promise<void> {
+  const run = startRun(command.name, options.profile.name, options.dryRun);
+  if (!command.tracksRun) return command.run(options, run);
+
+  const release = await lockLog(options.log, command.name);
+  const runLog = options.profile.runLog;
+  await mkdir(path.dirname(runLog), { recursive: true });
+  const onInterrupt = async () => {
+    await finishRun(run, runLog, ExitCode.INTERRUPTED);
+    await release();
+    process.exit(ExitCode.INTERRUPTED);
+  };
+  process.once('SIGINT', onInterrupt);
+  try {
+    await command.run(options, run);
+    await finishRun(run, runLog, ExitCode.OK);
+  } catch (error) {
+    await finishRun(run, runLog, exitCodeOf(error));
+    throw error;
+  } finally {
+    process.off('SIGINT', onInterrupt);
+    await release();
+  }
+}
+
+/** Bring catalog.json up to date after a command that used the logs; a failure only warns. */
+async function refreshCatalog(command: CommandSpec, profile: Profile): Promise<void> {
+  if (!command.log && !command.logs) return;
+  try {
+    await updateCatalog(profile);
+  } catch (error) {
+    console.error(`⚠ Could not update ${profile.catalog}: ${(error as Error).message}`);
+  }
+}
+
+/** Run the CLI and resolve to the process exit code. */
+export async function main(argv: string[]): Promise<ExitCode> {
+  try {
+    const commandLine = parseCommandLine(argv);
+    if (commandLine.help) {
+      console.log(usage(commandLine.command));
+      return ExitCode.OK;
+    }
+    const { command, values } = commandLine;
+    const configFile = path.resolve(values['config'] ?? DEFAULT_CONFIG_FILE);
+    const config = await loadConfig(configFile);
+    if (!config && values['config']) throw new ConfigError(`Config file ${configFile} does not exist`);
+    const profile = resolveProfile(config, configFile, values['profile'] ?? null);
+    if (profile.name) console.log(`Profile: ${profile.name}`);
+    const options = resolveOptions(command, values, profile, config);
+    if (options.log) await mkdir(path.dirname(options.log), { recursive: true });
+    try {
+      await execute(command, options);
+    } finally {
+      await refreshCatalog(command, profile);
+    }
+    return ExitCode.OK;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\nRun \`gphotos --help\` for usage.`);
+      return error.exitCode;
+    }
+    console.error(error instanceof GphotosError ? error.message : error);
+    return exitCodeOf(error);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * `gphotos chrome`: start Chrome for a profile with remote debugging on the profile's
+ * CDP port and its own --user-data-dir (what run.sh does for a single account).
+ */
+import { spawn } from 'child_process';
+import type { CommandOptions } from '../cli.js';
+import { UsageError } from '../errors.js';
+
+export async function chrome(options: CommandOptions): Promise<void> {
+  const { profile } = options;
+  if (!profile.userDataDir) {
+    throw new UsageError('gphotos chrome needs a profile (--profile or defaultProfile in the config)');
+  }
+  const port = new URL(options.cdp).port;
+  if (!port) throw new UsageError(`CDP endpoint ${options.cdp} has no port to listen on`);
+
+  const args = [`--remote-debugging-port=${port}`, `--user-data-dir=${profile.userDataDir}`];
+  console.log(`Starting ${options.chrome} ${args.join(' ')}`);
+  const child = spawn(options.chrome, args, { detached: true, stdio: 'ignore' });
+  await new Promise<void>((resolve, reject) => {
+    child.once('spawn', resolve);
+    child.once('error', reject);
+  });
+  child.unref();
+}
@@ -0,0 +1,199 @@
+/**
+ * `gphotos clean`: single-pass flow. Walks photos with ArrowRight; free photos are
+ * only logged, non-free photos are downloaded and moved to trash right away.
+ * Log: photolog.json (one JSON object per line, not valid JSON).
+ * The selection policy (--policy) decides per photo: download+delete (default for
+ * non-free photos), download only, or skip / protect (only logged). Each entry records
+ * the chosen action and rule. Photos whose storage status is unknown are only logged
+ * and added to review.log. A move to trash is never retried: if it is not confirmed, the
+ * photo is looked up at /trash/<id> before it is logged as deleted. --direction, --from-date, --to-date, --album and --search
+ * work as for `gphotos scan`, including the header line with the scope.
+ * With --dry-run nothing is downloaded, trashed or logged: each non-free photo's trash
+ * dialog is read and cancelled, and the running recoverable total is printed.
+ */
+import { writeFile } from 'fs/promises';
+import { mkdir } from 'fs/promises';
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect, setDownloadDir } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { describeRange, hasBounds, localDay, rangePosition } from '../date-range.js';
+import { StuckError } from '../errors.js';
+import { appendLogHeader, readScopedEntries } from '../log-header.js';
+import { toLogLine } from '../log-schema.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import { decide, describeDecision, loadPolicy, PolicyAction, shouldDelete, shouldDownload } from '../policy.js';
+import { addToReview } from '../review.js';
+import { formatFreed, recordDownload, recordTrash, RunStats } from '../run-stats.js';
+import { describeScope, sameScope, Scope } from '../scope.js';
+import type { PhotoInfo } from '../types.js';
+import { DownloadRecord, verifyDownload } from '../verify-download.js';
+
+type PhotoLogEntry = PhotoInfo & Partial<DownloadRecord> & {
+  account: string | null; // Google account the photo was seen in
+  downloadError?: string;
+  recoverableBytes?: number | null; // "recover X MB" of the trash dialog, in bytes
+  downloaded?: boolean;
+  deleted?: boolean;
+  deletedAt?: string; // when it was moved to trash (purged 60 days later)
+  deleteError?: string;
+  action: PolicyAction; // what the selection policy chose
+  rule: string | null; // the policy rule that chose it, null for the default
+};
+
+async function logPhotoInfo(logFile: string, photoInfo: PhotoLogEntry): Promise<void> {
+  await writeFile(logFile, toLogLine(photoInfo), { flag: 'a' });
+}
+
+/** Whether /trash/<id> shows the photo, after a move to trash that was not confirmed. Leaves the walk. */
+async function foundInTrash(viewer: PhotoViewer, id: string): Promise<boolean> {
+  await viewer.openTrashedPhoto(id);
+  const inTrash = await viewer.readInfo().catch(() => null);
+  return inTrash?.id === id && viewer.page.url().includes('/trash/');
+}
+
+/** Last photo logged in `scope` that was not deleted, i.e. still reachable in the collection. */
+async function findRestorePoint(logFile: string, scope: Scope): Promise<PhotoLogEntry | null> {
+  const logged = await readScopedEntries<PhotoLogEntry>(logFile, 'photo');
+  return logged.filter((l) => sameScope(l.scope, scope) && !l.entry.deleted && l.entry.id).pop()?.entry ?? null;
+}
+
+export async function clean(options: CommandOptions, run: RunStats): Promise<void> {
+  const policy = await loadPolicy(options.policyFile);
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page, options.scope);
+
+  await mkdir(options.downloadDir, { recursive: true });
+  await setDownloadDir(session, options.downloadDir);
+  console.log('Downloads to:', options.downloadDir);
+
+  await viewer.openLibrary();
+  // Trashes photos: refuse to run in another account than the profile's / the log's
+  const account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+  run.account = account;
+  console.log(`Cleaning ${describeScope(options.scope)}`);
+  if (!options.dryRun) await appendLogHeader(options.log, { command: 'clean', scope: options.scope, account, runId: run.runId });
+
+  const { dateRange: range, direction } = options;
+  if (hasBounds(range)) console.log(`Photos taken from ${describeRange(range)}, walking ${direction}`);
+
+  // Start from --start-id, else re-process the last non-deleted photo of the previous run if it is in range
+  const restorePoint = options.startId ? null : await findRestorePoint(options.log, options.scope);
+  const startId = options.startId
+    ?? (restorePoint?.id && rangePosition(localDay(restorePoint.metadataDate), range, direction) === 'in' ? restorePoint.id : null);
+  if (startId) {
+    console.log('Restoring state to photo:', startId);
+    await viewer.openPhoto(startId);
+  } else if (!await viewer.openWalkStart(range, direction)) {
+    console.log(`No photos taken from ${describeRange(range)}`);
+    return;
+  }
+
+  let previousPhotoInfo: PhotoInfo | null = null;
+
+  while (true) {
+    const info = await viewer.readInfoAfterMove(previousPhotoInfo, direction);
+    if (!info) {
+      console.log(`\n${options.dryRun ? '🔍 Dry run, nothing deleted' : 'Totals'}: ${formatFreed(run)}`);
+      throw new StuckError(`Navigation stuck after all retries; last processed photo: ${previousPhotoInfo?.id ?? previousPhotoInfo?.filename}`);
+    }
+    const position = rangePosition(localDay(info.metadataDate), range, direction);
+    if (position === 'after') {
+      console.log(`✅ Reached ${info.dateTaken}, past ${describeRange(range)}`);
+      console.log(`\n${options.dryRun ? '🔍 Dry run, nothing deleted' : 'Totals'}: ${formatFreed(run)}`);
+      return;
+    }
+    if (position === 'before') {
+      console.log(`Skipping ${info.filename} (${info.dateTaken}), not in range yet`);
+      await viewer.move(direction);
+      previousPhotoInfo = info;
+      continue;
+    }
+    const currentPhotoInfo: PhotoLogEntry = { ...info, account, ...decide(policy, info), downloaded: false, deleted: false };
+    console.log('Current photo info:', currentPhotoInfo);
+
+    if (!shouldDownload(currentPhotoInfo.action)) {
+      if (currentPhotoInfo.action === 'review') {
+        if (!options.dryRun) await addToReview(options.profile.reviewLog, info, 'clean', account);
+      } else {
+        console.log(currentPhotoInfo.free && !currentPhotoInfo.rule
+          ? 'Photo is free, navigating to next photo...'
+          : `Policy: ${describeDecision(currentPhotoInfo)}, navigating to next photo...`);
+      }
+      if (!options.dryRun) await logPhotoInfo(options.log, currentPhotoInfo);
+      await viewer.move(direction);
+    } else if (options.dryRun) {
+      if (!shouldDelete(currentPhotoInfo.action)) {
+        console.log(`🔍 Would download only: ${describeDecision(currentPhotoInfo)}`);
+        await viewer.move(direction);
+        previousPhotoInfo = currentPhotoInfo;
+        continue;
+      }
+      try {
+        recordTrash(run, await viewer.trash({ dryRun: true }));
+        console.log(`🔍 So far: ${formatFreed(run)}`);
+      } catch (error) {
+        console.error('Error reading trash dialog:', error);
+      }
+      await viewer.move(direction);
+    } else {
+      const trash = shouldDelete(currentPhotoInfo.action);
+      let leftWalk = false; // the viewer was sent to /trash/<id>
+      console.log(trash ? 'Photo is not free, downloading and deleting...' : `Downloading only: ${describeDecision(currentPhotoInfo)}...`);
+      try {
+        const localPath = await viewer.download(options.downloadDir, [options.doneDir]);
+        try {
+          Object.assign(currentPhotoInfo, await verifyDownload(localPath, currentPhotoInfo.filename, currentPhotoInfo.fileSize));
+        } catch (error) {
+          currentPhotoInfo.downloadError = (error as Error).message;
+          throw error;
+        }
+        currentPhotoInfo.downloaded = true;
+        recordDownload(run, currentPhotoInfo.bytes!);
+        console.log('Photo downloaded and verified');
+
+        if (trash) {
+          // Not retried, see PhotoViewer.trash()
+          const amount = await viewer.trash({ retry: false }).catch((error: Error) => {
+            console.error(`⚠ Move to trash not confirmed (${error.message}); checking the trash`);
+            leftWalk = true;
+            return undefined;
+          });
+          if (amount !== undefined || (currentPhotoInfo.id && await foundInTrash(viewer, currentPhotoInfo.id))) {
+            currentPhotoInfo.recoverableBytes = recordTrash(run, amount ?? null);
+            currentPhotoInfo.deleted = true;
+            currentPhotoInfo.deletedAt = new Date().toISOString();
+            console.log(amount !== undefined ? 'Photo deleted successfully' : 'Photo found in trash');
+          } else {
+            currentPhotoInfo.deleteError = `/trash/${currentPhotoInfo.id} does not show the photo`;
+            console.error(`❌ Not trashed: ${currentPhotoInfo.deleteError}`);
+          }
+        }
+      } catch (error) {
+        console.error('Error processing photo:', error);
+      }
+
+      await logPhotoInfo(options.log, currentPhotoInfo);
+
+      if (leftWalk) {
+        // Back to the last photo still in the library, then on to its neighbour
+        const anchor = currentPhotoInfo.deleted ? previousPhotoInfo as PhotoLogEntry | null : currentPhotoInfo;
+        if (!anchor?.id || anchor.deleted) {
+          throw new StuckError(`Lost the place after checking the trash; last processed photo: ${currentPhotoInfo.id}`);
+        }
+        await viewer.openPhoto(anchor.id);
+        await viewer.move(direction);
+      } else if (!currentPhotoInfo.deleted) {
+        // Only navigate to next photo if deletion failed (trashing automatically moves cursor)
+        console.log('Navigating to next photo...');
+        await viewer.move(direction);
+      } else {
+        console.log('Waiting for auto-navigation after trashing to complete...');
+        await session.page.waitForTimeout(500);
+        // The viewer moves on to the older neighbour; walking left we want the newer one
+        if (direction === 'left') await viewer.prev();
+      }
+    }
+
+    previousPhotoInfo = currentPhotoInfo;
+  }
+}
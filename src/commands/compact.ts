@@ -0,0 +1,45 @@
+/**
+ * `gphotos compact`: fold the update lines that delete, dates resolve and dates apply
+ * append (see journal.ts) into their entries and write the profile's scan, photo and
+ * date logs (or --log) back without them. The new log is written to <log>.tmp and
+ * renamed over the old one, so a crash leaves one of the two complete. Header lines and
+ * bad lines stay where they were. Holds the log's lock while it works.
+ */
+import { access, stat } from 'fs/promises';
+import type { CommandOptions } from '../cli.js';
+import { detectKind, parseLog, renderLog, replaceLog } from '../log-header.js';
+import { withLogLock } from '../log-lock.js';
+import { EntryKind, reportProblems } from '../log-schema.js';
+import { formatBytes } from '../sizes.js';
+
+async function compactLog(logFile: string, kind: EntryKind): Promise<void> {
+  const log = await parseLog<object>(logFile, kind);
+  reportProblems(logFile, log.problems);
+  if (log.updates === 0) {
+    console.log(`${logFile}: no update lines, nothing to compact`);
+    return;
+  }
+  const before = (await stat(logFile)).size;
+  await replaceLog(logFile, renderLog(log, 'keep'));
+  const after = (await stat(logFile)).size;
+  console.log(`✅ ${logFile}: ${log.updates} update lines folded into ${log.entries.length} entries (${formatBytes(before)} → ${formatBytes(after)})`);
+}
+
+export async function compact(options: CommandOptions): Promise<void> {
+  const { scan, photo, date } = options.profile.logs;
+  const logs: [string, EntryKind | null][] = options.log
+    ? [[options.log, null]]
+    : [[scan, 'photo'], [photo, 'photo'], [date, 'date']];
+  for (const [logFile, knownKind] of logs) {
+    if (!await access(logFile).then(() => true, () => false)) {
+      console.log(`${logFile}: does not exist`);
+      continue;
+    }
+    const kind = knownKind ?? await detectKind(logFile);
+    if (!kind) {
+      console.log(`${logFile}: no photo, date or inventory entries; left as is`);
+      continue;
+    }
+    await withLogLock(logFile, 'compact', () => compactLog(logFile, kind));
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * `gphotos dates apply`: set "Date taken" of every datelog.json entry that has a
+ * targetDate and is not yet processed, then mark it processed: true.
+ */
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { DateInfo, readDateLog, updateDateEntry } from '../date-log.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import type { RunStats } from '../run-stats.js';
+
+/** Only checks that the panel shows a date after saving; the value is logged for review. */
+async function verifyDate(viewer: PhotoViewer): Promise<boolean> {
+  try {
+    await viewer.page.waitForTimeout(1000);
+    await viewer.openInfoPanel();
+    const { dateTaken } = await viewer.readDate();
+    if (!dateTaken) {
+      console.log('Date element not found in info panel');
+      return false;
+    }
+    console.log(`Verified date: ${dateTaken}`);
+    return true;
+  } catch (error) {
+    console.log('Error verifying date:', error);
+    return false;
+  }
+}
+
+async function processPhoto(viewer: PhotoViewer, entry: DateInfo): Promise<boolean> {
+  try {
+    if (!entry.id || !entry.targetDate) {
+      console.log(`Skipping entry: missing id or targetDate`);
+      return false;
+    }
+
+    console.log(`\nProcessing: ${entry.filename || entry.id}`);
+    console.log(`  Target date: ${entry.targetDate}`);
+
+    await viewer.openPhoto(entry.id);
+    // Timezone in the date dialog is expected to already be UTC+3
+    await viewer.setDate(entry.targetDate, 3);
+
+    const verified = await verifyDate(viewer);
+    if (!verified) {
+      console.log(`  ⚠ Warning: Date verification failed, but continuing...`);
+    }
+
+    console.log(`  ✓ Date updated successfully`);
+    return true;
+  } catch (error) {
+    console.log(`  ✗ Error processing photo: ${error}`);
+    return false;
+  }
+}
+
+export async function applyDates(options: CommandOptions, run: RunStats): Promise<void> {
+  const dateLog = await readDateLog(options.log);
+  console.log(`Found ${dateLog.length} entries in ${options.log}`);
+
+  const entriesToProcess = dateLog.filter(entry => entry.targetDate && !entry.processed);
+  console.log(`Found ${entriesToProcess.length} entries to process`);
+
+  if (entriesToProcess.length === 0) {
+    console.log('No entries to process.');
+    return;
+  }
+
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page);
+  await viewer.openLibrary();
+  run.account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+
+  let successCount = 0;
+  for (const entry of entriesToProcess) {
+    if (await processPhoto(viewer, entry)) {
+      successCount++;
+      // Record it right away: one update line appended to the log
+      await updateDateEntry(options.log, entry, { processed: true }, 'dates apply');
+      console.log(`  ✓ Marked as processed and saved to ${options.log}`);
+    }
+    await session.page.waitForTimeout(1000);
+  }
+
+  console.log(`\nSummary:`);
+  console.log(`  - Attempted: ${entriesToProcess.length} entries`);
+  console.log(`  - Successful: ${successCount} entries`);
+  console.log(`  - Failed: ${entriesToProcess.length - successCount} entries`);
+}
@@ -0,0 +1,128 @@
+/**
+ * `gphotos dates resolve`: for re-uploaded photos whose filename date is missing or
+ * differs from the metadata date by 8+ hours, find the trashed original (idmap.json, matched
+ * again on every run, see id-map.ts) and record its date as targetDate in datelog.json.
+ */
+import { connect } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { DateInfo, readDateLog, updateDateEntry } from '../date-log.js';
+import { getTimeDifferenceHours, parseFilenameDate } from '../dates.js';
+import { updateIdMap } from '../id-map.js';
+import { PhotoViewer } from '../photo-viewer.js';
+
+async function extractDateFromTrash(viewer: PhotoViewer, photoId: string): Promise<string | null> {
+  try {
+    await viewer.openTrashedPhoto(photoId);
+    try {
+      await viewer.openInfoPanel();
+    } catch (error) {
+      console.log('Could not open Info panel in trash view:', error);
+    }
+    const { metadataDate } = await viewer.readDate();
+    return metadataDate;
+  } catch (error) {
+    console.log(`Error extracting date from trash for photo ${photoId}:`, error);
+    return null;
+  }
+}
+
+function redText(text: string): string {
+  return `\x1b[31m${text}\x1b[0m`;
+}
+
+/**
+ * Processing criteria:
+ * 1. Skip processed entries and files starting with BEST_OF_MONTH or RECAP
+ * 2. Skip if targetDate already exists
+ * 3. Process if filenameDate is null OR differs from metadataDate by 8+ hours
+ */
+function needsTargetDate(entry: DateInfo): boolean {
+  if (entry.processed) return false;
+  if (entry.filename && (entry.filename.startsWith('BEST_OF_MONTH') || entry.filename.startsWith('RECAP'))) {
+    return false;
+  }
+  if (entry.targetDate) return false;
+  if (!entry.filenameDate) return true;
+  if (!entry.metadataDate) return false;
+  const diffHours = getTimeDifferenceHours(entry.filenameDate, entry.metadataDate);
+  return diffHours !== null && diffHours >= 8;
+}
+
+export async function resolveDates(options: CommandOptions): Promise<void> {
+  const dateLog = await readDateLog(options.log);
+  console.log(`Found ${dateLog.length} entries in ${options.log}`);
+
+  // First pass: try to parse filename dates for all entries where filenameDate is null
+  let filenameDateUpdatedCount = 0;
+  for (const entry of dateLog) {
+    if (entry.filename && !entry.filenameDate) {
+      const parsedDate = parseFilenameDate(entry.filename);
+      if (parsedDate) {
+        await updateDateEntry(options.log, entry, { filenameDate: parsedDate }, 'dates resolve');
+        filenameDateUpdatedCount++;
+      }
+    }
+  }
+  if (filenameDateUpdatedCount > 0) {
+    console.log(`Updated ${filenameDateUpdatedCount} entries with filenameDate`);
+  }
+
+  const idMap = await updateIdMap(options.profile.idMap, { photo: options.photoLog, scan: options.profile.logs.scan, date: options.log });
+  const oldIds = new Map(idMap.matched.map((m) => [m.newId, m.oldId]));
+  const ambiguous = new Set(idMap.ambiguous.map((a) => a.newId));
+
+  const entriesToProcess = dateLog.filter(needsTargetDate);
+  console.log(`Found ${entriesToProcess.length} entries to process`);
+
+  let updatedCount = 0;
+  let viewer: PhotoViewer | null = null;
+  for (const dateEntry of entriesToProcess) {
+    if (!dateEntry.filename || !dateEntry.id) {
+      console.log(`Skipping entry without filename or id: ${dateEntry.id ?? dateEntry.filename}`);
+      continue;
+    }
+
+    const oldId = oldIds.get(dateEntry.id);
+    if (!oldId) {
+      const why = ambiguous.has(dateEntry.id) ? `several possible originals, see ${options.profile.idMap}` : 'no original found';
+      console.log(`Could not find old id for ${dateEntry.filename}: ${why}`);
+      continue;
+    }
+
+    const diffHours = getTimeDifferenceHours(dateEntry.filenameDate, dateEntry.metadataDate);
+
+    console.log(`\nProcessing: ${dateEntry.filename}`);
+    console.log(`  Current ID: ${dateEntry.id}`);
+    console.log(`  Old ID: ${oldId}`);
+    console.log(`  Metadata date: ${dateEntry.metadataDate}`);
+    console.log(`  Filename date: ${dateEntry.filenameDate || 'null'}`);
+    if (diffHours !== null) {
+      console.log(redText(`  Date difference: ${diffHours.toFixed(2)} hours`));
+    }
+
+    viewer ??= new PhotoViewer((await connect(options.cdp)).page);
+    const trashDate = await extractDateFromTrash(viewer, oldId);
+    console.log(`  Trash date (targetDate): ${trashDate}`);
+
+    if (trashDate !== null) {
+      await updateDateEntry(options.log, dateEntry, { targetDate: trashDate }, 'dates resolve');
+      updatedCount++;
+      console.log(`  ✓ Added targetDate: ${trashDate}`);
+    }
+
+    await viewer.page.waitForTimeout(1000);
+  }
+
+  if (filenameDateUpdatedCount > 0 || updatedCount > 0) {
+    console.log(`\nSummary:`);
+    if (filenameDateUpdatedCount > 0) {
+      console.log(`  - Updated ${filenameDateUpdatedCount} entries with filenameDate`);
+    }
+    if (updatedCount > 0) {
+      console.log(`  - Added targetDate to ${updatedCount} entries`);
+    }
+    console.log(`  - All updates saved to ${options.log}`);
+  } else {
+    console.log('\nNo updates needed');
+  }
+}
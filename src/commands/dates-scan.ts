@@ -0,0 +1,114 @@
+/**
+ * `gphotos dates scan`: walk photos with ArrowRight and log, per photo, the date from
+ * the Info panel and the date encoded in the filename (see FIXDATES_TASK.md).
+ * --direction, --from-date, --to-date, --album and --search work as for `gphotos scan`,
+ * including the header line with the scope. --inventory opens the inventory.log photos
+ * not in the date log yet by id, as for `gphotos scan --inventory`.
+ */
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { appendDateInfo, DateInfo } from '../date-log.js';
+import { describeRange, hasBounds, localDay, rangePosition } from '../date-range.js';
+import { StuckError, UsageError } from '../errors.js';
+import { inventoryToVisit } from '../inventory.js';
+import { appendLogHeader, readScopedEntries } from '../log-header.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import type { RunStats } from '../run-stats.js';
+import { describeScope, sameScope } from '../scope.js';
+import type { PhotoInfo } from '../types.js';
+
+function toDateInfo(info: PhotoInfo, account: string | null): DateInfo {
+  return {
+    id: info.id,
+    filename: info.filename,
+    metadataDate: info.metadataDate,
+    filenameDate: info.filenameDate,
+    account,
+    metadata: info.metadata,
+  };
+}
+
+export async function scanDates(options: CommandOptions, run: RunStats): Promise<void> {
+  const { dateRange: range, direction } = options;
+  if (options.useInventory && options.startId) throw new UsageError('--inventory cannot be combined with --start-id');
+  const logged = await readScopedEntries<DateInfo>(options.log, 'date');
+  const inventory = options.useInventory
+    ? await inventoryToVisit(options.profile.logs.inventory, options.scope,
+      new Set(logged.map((l) => l.entry.id).filter((id): id is string => !!id)), range, direction)
+    : null;
+
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page, options.scope);
+
+  await viewer.openLibrary();
+  const account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+  run.account = account;
+  console.log(`Scanning dates in ${describeScope(options.scope)}`);
+
+  if (hasBounds(range)) console.log(`Photos taken from ${describeRange(range)}, walking ${direction}`);
+
+  // Start from --start-id, else re-read the last photo logged in this scope if it is in the date range
+  const lastPhoto = logged
+    .filter((l) => sameScope(l.scope, options.scope) && l.entry.id).pop()?.entry;
+  await appendLogHeader(options.log, { command: 'dates scan', scope: options.scope, account, runId: run.runId });
+
+  if (inventory) {
+    console.log(`Inventory: ${inventory.length} photos not in ${options.log} yet`);
+    for (const item of inventory) {
+      await viewer.openPhoto(item.id);
+      const info = await viewer.readInfo();
+      if (info.id !== item.id) {
+        console.log(`⚠ ${item.id} opened as ${info.id}; skipping`);
+        continue;
+      }
+      if (rangePosition(localDay(info.metadataDate), range, direction) !== 'in') {
+        console.log(`Skipping ${info.filename} (${info.dateTaken}), not in range`);
+        continue;
+      }
+      const dateInfo = toDateInfo(info, account);
+      console.log('Current photo info:', dateInfo);
+      await appendDateInfo(options.log, dateInfo);
+    }
+    console.log(`✅ Done with the ${inventory.length} inventory photos`);
+    return;
+  }
+  const startId = options.startId
+    ?? (lastPhoto?.id && rangePosition(localDay(lastPhoto.metadataDate), range, direction) === 'in' ? lastPhoto.id : null);
+  if (startId) {
+    console.log('Restoring state to photo:', startId);
+    await viewer.openPhoto(startId);
+  } else if (!await viewer.openWalkStart(range, direction)) {
+    console.log(`No photos taken from ${describeRange(range)}`);
+    return;
+  }
+
+  let previousPhotoInfo: PhotoInfo | null = null;
+
+  while (true) {
+    const currentPhotoInfo = await viewer.readInfoAfterMove(previousPhotoInfo, direction);
+    if (!currentPhotoInfo) {
+      throw new StuckError(`Navigation stuck after all retries; last processed photo: ${previousPhotoInfo?.id ?? previousPhotoInfo?.filename}`);
+    }
+    const position = rangePosition(localDay(currentPhotoInfo.metadataDate), range, direction);
+    if (position === 'after') {
+      console.log(`✅ Reached ${currentPhotoInfo.dateTaken}, past ${describeRange(range)}; done`);
+      return;
+    }
+    if (position === 'before') {
+      console.log(`Skipping ${currentPhotoInfo.filename} (${currentPhotoInfo.dateTaken}), not in range yet`);
+      await viewer.move(direction);
+      previousPhotoInfo = currentPhotoInfo;
+      continue;
+    }
+    const dateInfo = toDateInfo(currentPhotoInfo, account);
+    console.log('Current photo info:', dateInfo);
+
+    await appendDateInfo(options.log, dateInfo);
+
+    console.log('Navigating to next photo...');
+    await viewer.move(direction);
+
+    previousPhotoInfo = currentPhotoInfo;
+  }
+}
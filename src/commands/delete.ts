@@ -0,0 +1,200 @@
+/**
+ * `gphotos delete`: read a scan log and move each downloaded, not yet deleted photo
+ * to trash. Appends an update line with deleted: true for each successfully deleted entry.
+ * Free-photo lines are only a checkpoint and are never deleted.
+ * A photo is only trashed if its local backup (download dir or done dir) still
+ * matches the SHA-256 recorded at download time; the others are skipped and reported.
+ * The viewer must show the logged photo (same filename and size) before trashing, and
+ * the item must show up at /trash/<id> afterwards; mismatches are logged as deleteError.
+ * Trashing is never retried: a failed attempt is settled by looking at /trash/<id>.
+ * The selection policy (--policy) is applied again to every entry: only those it
+ * says download+delete are trashed, and the action and rule are written into the entry.
+ * The action logged by scan / clean is binding too: an entry logged with another action
+ * is never trashed, and entries where it and the current policy disagree are listed.
+ * A photo whose storage status the viewer shows as unknown is not trashed but added to review.log.
+ * With --dry-run each trash dialog is only read and cancelled; the log is left as is.
+ */
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { appendUpdate } from '../journal.js';
+import { readEntries } from '../log-header.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import { decide, describeDecision, loadPolicy, PolicyAction, PolicyDecision, shouldDelete } from '../policy.js';
+import { addToReview } from '../review.js';
+import { formatFreed, recordTrash, RunStats } from '../run-stats.js';
+import type { PhotoInfo, StorageClass } from '../types.js';
+import { findVerifiedBackup } from '../verify-download.js';
+
+type LogEntry = {
+  id: string | null;
+  filename: string | null;
+  free?: boolean;
+  notTakingSpace?: boolean;
+  storage?: StorageClass;
+  storageReason?: string;
+  fileSize?: string | null;
+  fileSizeBytes?: number | null;
+  dimensions?: string | null;
+  metadataDate?: string | null;
+  recoverableBytes?: number | null; // "recover X MB" of the trash dialog, in bytes
+  account?: string | null;
+  localPath?: string;
+  sha256?: string;
+  downloaded?: boolean;
+  deleted?: boolean;
+  deletedAt?: string; // when it was moved to trash (purged 60 days later)
+  restoredAt?: string; // taken back out of trash by `gphotos restore`
+  deleteError?: string;
+  action?: PolicyAction;
+  rule?: string | null;
+};
+
+/** Why the viewer does not show the logged photo, or null if it does. */
+function identityProblem(entry: LogEntry, shown: PhotoInfo, where: string, checkSize: boolean): string | null {
+  if (shown.id !== entry.id) return `${where} shows id ${shown.id}, expected ${entry.id}`;
+  if (shown.filename !== entry.filename) return `${where} shows ${shown.filename}, expected ${entry.filename}`;
+  if (checkSize && entry.fileSize && shown.fileSize !== entry.fileSize) {
+    return `${where} shows size ${shown.fileSize ?? 'none'}, expected ${entry.fileSize}`;
+  }
+  return null;
+}
+
+export async function deleteFromLog(options: CommandOptions, run: RunStats): Promise<void> {
+  const policy = await loadPolicy(options.policyFile);
+  const entries = await readEntries<LogEntry>(options.log, 'photo');
+  const toDelete = entries.filter((e) => e.id && e.deleted !== true && e.downloaded === true && !e.restoredAt);
+
+  console.log(`Log has ${entries.length} entries; ${toDelete.length} non-free (downloaded) not yet deleted.`);
+  if (toDelete.length === 0) {
+    console.log('Nothing to delete.');
+    return;
+  }
+
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page);
+  await viewer.openLibrary();
+  const account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+  run.account = account;
+
+  const unverified: { entry: LogEntry; problem: string }[] = [];
+  const mismatched: { entry: LogEntry; problem: string }[] = [];
+  const kept: { entry: LogEntry; decision: PolicyDecision }[] = [];
+  const disagreeing: { entry: LogEntry; decision: PolicyDecision }[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry.id || entry.deleted === true || entry.downloaded !== true || entry.restoredAt) continue;
+
+    console.log(`\n[${i + 1}/${entries.length}] ${entry.filename} (${entry.id})`);
+    if (entry.account && account && entry.account.toLowerCase() !== account) {
+      console.error(`❌ Logged from ${entry.account}, signed in as ${account}; skipping`);
+      continue;
+    }
+    const decision = decide(policy, entry);
+    if (entry.action && shouldDelete(entry.action) !== shouldDelete(decision.action)) {
+      console.log(`Policy: logged ${describeDecision({ action: entry.action, rule: entry.rule ?? null })}, now ${describeDecision(decision)}; not trashing`);
+      disagreeing.push({ entry, decision });
+      continue;
+    }
+    if (!shouldDelete(decision.action)) {
+      console.log(`Policy: ${describeDecision(decision)}; not trashing`);
+      kept.push({ entry, decision });
+      continue;
+    }
+    const backup = await findVerifiedBackup(entry, [options.downloadDir, options.doneDir]);
+    if (!backup.ok) {
+      console.error(`❌ No verified local backup (${backup.problem}); skipping`);
+      unverified.push({ entry, problem: backup.problem });
+      continue;
+    }
+    console.log(`Backup verified: ${backup.path}`);
+    try {
+      await viewer.openPhoto(entry.id);
+      const shown = await viewer.readInfo();
+      const before = identityProblem(entry, shown, 'Viewer', true);
+      if (before) {
+        console.error(`❌ ${before}; not trashing`);
+        mismatched.push({ entry, problem: before });
+        if (!options.dryRun) {
+          await appendUpdate(options.log, entry.id, { ...decision, deleteError: before }, 'delete');
+        }
+        continue;
+      }
+      if (shown.storage === 'unknown') {
+        const review: PolicyDecision = { action: 'review', rule: null };
+        kept.push({ entry, decision: review });
+        if (!options.dryRun) {
+          await addToReview(options.profile.reviewLog, shown, 'delete', account);
+          await appendUpdate(options.log, entry.id, { ...review, storage: shown.storage, storageReason: shown.storageReason }, 'delete');
+        }
+        continue;
+      }
+
+      // A failed attempt may still have trashed it: settled at /trash/<id> below
+      let recoverableBytes: number | null = null;
+      try {
+        const amount = await viewer.trash({ dryRun: options.dryRun, retry: false });
+        recoverableBytes = recordTrash(run, amount);
+        if (options.dryRun) {
+          console.log(`Would free ${amount ?? 'unknown amount'}`);
+          continue;
+        }
+      } catch (error) {
+        if (options.dryRun) throw error;
+        console.error(`⚠ Move to trash not confirmed (${(error as Error).message}); checking the trash`);
+      }
+
+      await viewer.openTrashedPhoto(entry.id);
+      const inTrash = await viewer.readInfo().catch(() => null);
+      const after = inTrash
+        ? identityProblem(entry, inTrash, 'Trash', false)
+        : `/trash/${entry.id} does not show the photo`;
+      if (after) {
+        console.error(`❌ Trashed, but ${after}`);
+        mismatched.push({ entry, problem: after });
+        await appendUpdate(options.log, entry.id, { ...decision, recoverableBytes, deleteError: `after trashing: ${after}` }, 'delete');
+      } else {
+        await appendUpdate(options.log, entry.id, { ...decision, recoverableBytes, deleted: true, deletedAt: new Date().toISOString(), deleteError: undefined }, 'delete');
+        console.log('✅ Deleted, found in trash');
+      }
+    } catch (err) {
+      console.error('❌', err);
+    }
+    await session.page.waitForTimeout(500);
+  }
+
+  if (kept.length > 0) {
+    console.log(`\n⚠ Kept ${kept.length} photos the policy does not delete or whose storage status is unknown:`);
+    for (const { entry, decision } of kept) {
+      console.log(`  - ${entry.filename} (${entry.id}): ${describeDecision(decision)}`);
+    }
+  }
+
+  if (disagreeing.length > 0) {
+    console.log(`\n⚠ Kept ${disagreeing.length} photos whose logged action and current policy disagree on trashing (run with the scan's --policy, or scan them again):`);
+    for (const { entry, decision } of disagreeing) {
+      console.log(`  - ${entry.filename} (${entry.id}): logged ${describeDecision({ action: entry.action!, rule: entry.rule ?? null })}, now ${describeDecision(decision)}`);
+    }
+  }
+
+  if (unverified.length > 0) {
+    console.log(`\n⚠ Skipped ${unverified.length} photos without a verified local backup:`);
+    for (const { entry, problem } of unverified) {
+      console.log(`  - ${entry.filename} (${entry.id}): ${problem}`);
+    }
+  }
+
+  if (mismatched.length > 0) {
+    console.log(`\n❌ ${mismatched.length} photos did not match the log:`);
+    for (const { entry, problem } of mismatched) {
+      console.log(`  - ${entry.filename} (${entry.id}): ${problem}`);
+    }
+  }
+
+  if (options.dryRun) {
+    console.log(`\n🔍 Dry run, nothing deleted: ${formatFreed(run)}`);
+  } else {
+    console.log(`\n✅ Done: ${formatFreed(run)}`);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * `gphotos inventory coverage`: compare inventory.log with the profile's scan, photo
+ * and date logs. Prints how many inventory photos each log has visited and lists the
+ * ones no log has visited yet (all of them, one JSON line each, with --output).
+ */
+import { access, writeFile } from 'fs/promises';
+import type { CommandOptions } from '../cli.js';
+import { UsageError } from '../errors.js';
+import { readInventory } from '../inventory.js';
+import { readScopedEntries } from '../log-header.js';
+import type { EntryKind } from '../log-schema.js';
+import { describeScope } from '../scope.js';
+
+async function loggedIds(logFile: string, kind: EntryKind): Promise<Set<string> | null> {
+  if (!await access(logFile).then(() => true, () => false)) return null;
+  const entries = await readScopedEntries<{ id: string | null }>(logFile, kind);
+  return new Set(entries.map((e) => e.entry.id).filter((id): id is string => !!id));
+}
+
+export async function inventoryCoverage(options: CommandOptions): Promise<void> {
+  const { scope, items } = await readInventory(options.log);
+  if (!scope) throw new UsageError(`${options.log} has no inventory; run \`gphotos inventory scan\` first`);
+  console.log(`Inventory of ${describeScope(scope)}: ${items.length} photos`);
+
+  const inventoryIds = new Set(items.map((i) => i.id));
+  const visited = new Set<string>();
+  const { scan, photo, date } = options.profile.logs;
+  const logs: [string, EntryKind][] = [[scan, 'photo'], [photo, 'photo'], [date, 'date']];
+  for (const [logFile, kind] of logs) {
+    const ids = await loggedIds(logFile, kind);
+    if (!ids) {
+      console.log(`  ${logFile}: does not exist`);
+      continue;
+    }
+    const inInventory = [...ids].filter((id) => inventoryIds.has(id));
+    inInventory.forEach((id) => visited.add(id));
+    console.log(`  ${logFile}: ${inInventory.length} of them visited, ${ids.size - inInventory.length} other ids`);
+  }
+
+  const unvisited = items.filter((i) => !visited.has(i.id));
+  const percent = items.length ? ((100 * (items.length - unvisited.length)) / items.length).toFixed(1) : '100.0';
+  console.log(`\nCovered ${items.length - unvisited.length}/${items.length} (${percent}%); not visited by any log: ${unvisited.length}`);
+  for (const item of unvisited.slice(0, options.top)) {
+    console.log(`  #${item.position} ${item.id}  ${item.label}`);
+  }
+  if (unvisited.length > options.top) console.log(`  … and ${unvisited.length - options.top} more`);
+
+  if (options.output) {
+    await writeFile(options.output, unvisited.map((i) => JSON.stringify(i) + '\n').join(''), 'utf8');
+    console.log(`✅ Not visited photos written to ${options.output}`);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * `gphotos inventory scan`: scroll the whole grid (library, album or search result)
+ * and write every /photo/<id> link with its aria-label and date to inventory.log, in
+ * grid order. The file is written to <log>.tmp and renamed when the grid is done, so
+ * an interrupted run leaves the previous inventory in place.
+ * `scan --inventory` and `dates scan --inventory` then open the photos by id.
+ */
+import { rename, rm, writeFile } from 'fs/promises';
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { parseShortDate } from '../dates.js';
+import type { InventoryItem } from '../inventory.js';
+import { appendLogHeader } from '../log-header.js';
+import { toLogLine } from '../log-schema.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import type { RunStats } from '../run-stats.js';
+import { describeScope } from '../scope.js';
+
+export async function scanInventory(options: CommandOptions, run: RunStats): Promise<void> {
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page, options.scope);
+
+  await viewer.openLibrary();
+  const account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+  run.account = account;
+  console.log(`Taking inventory of ${describeScope(options.scope)}`);
+
+  const tmp = `${options.log}.tmp`;
+  await rm(tmp, { force: true });
+  await appendLogHeader(tmp, { command: 'inventory scan', scope: options.scope, account, runId: run.runId });
+
+  let position = 0;
+  const total = await viewer.collectGrid(async (items) => {
+    const lines = items.map(({ id, label }) => {
+      const item: InventoryItem = { position: position++, id, label, day: parseShortDate(label) };
+      return toLogLine(item);
+    });
+    await writeFile(tmp, lines.join(''), { flag: 'a' });
+    const last = items[items.length - 1];
+    console.log(`${position} photos so far (${last.label || last.id})`);
+  });
+
+  await rename(tmp, options.log);
+  console.log(`✅ ${total} photos in ${options.log}`);
+}
@@ -0,0 +1,30 @@
+/**
+ * `gphotos match`: link re-uploaded photos (date log) to their downloaded or trashed
+ * originals (photo and scan logs) and write idmap.json, which `dates resolve` uses to find
+ * the original's date. Candidates must share the filename (or be a copy of it) and are
+ * scored on size, dimensions, day taken and order among the photos of that name (see id-map.ts).
+ * Photos with several plausible originals or none are listed for manual review.
+ */
+import type { CommandOptions } from '../cli.js';
+import { updateIdMap } from '../id-map.js';
+
+const LIST_LIMIT = 20;
+
+export async function match(options: CommandOptions): Promise<void> {
+  const { profile } = options;
+  const idMap = await updateIdMap(profile.idMap, { photo: options.photoLog, scan: profile.logs.scan, date: options.log });
+
+  if (idMap.ambiguous.length) {
+    console.log(`\n⚠ Ambiguous, set the right one in ${profile.idMap} ("manual": true under matched):`);
+    for (const { newId, filename, candidates } of idMap.ambiguous.slice(0, LIST_LIMIT)) {
+      console.log(`  ${filename} (${newId})`);
+      for (const c of candidates) console.log(`    ${c.oldId}: ${c.score} (${c.reasons.join(', ')})`);
+    }
+    if (idMap.ambiguous.length > LIST_LIMIT) console.log(`  … and ${idMap.ambiguous.length - LIST_LIMIT} more`);
+  }
+  if (idMap.unmatched.length) {
+    console.log(`\n❌ No original with this filename:`);
+    for (const { newId, filename } of idMap.unmatched.slice(0, LIST_LIMIT)) console.log(`  ${filename} (${newId})`);
+    if (idMap.unmatched.length > LIST_LIMIT) console.log(`  … and ${idMap.unmatched.length - LIST_LIMIT} more`);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * `gphotos merge`: join the scan log, the photo log and the date log into merged.json,
+ * one record per photo. Entries are joined by id; entries without an id (old date log
+ * lines) by filename when exactly one photo has it. Status flags (downloaded, deleted,
+ * processed) are true if any entry says so. A field on which the entries disagree (a
+ * photo id with two filenames, two dates, …) is left null and listed with every value
+ * and the line it came from, instead of taking the last one. Identical entries of one
+ * photo in the same log are counted as duplicate lines.
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { CommandOptions } from '../cli.js';
+import { LogHeader, parseLog } from '../log-header.js';
+import { EntryKind, reportProblems } from '../log-schema.js';
+import type { StorageClass } from '../types.js';
+
+type Source = 'scan' | 'photo' | 'date';
+
+const SOURCES: [Source, EntryKind][] = [['scan', 'photo'], ['photo', 'photo'], ['date', 'date']];
+
+/** Fields that must agree between the entries of a photo. */
+const VALUE_FIELDS = [
+  'filename', 'account', 'storage', 'fileSize', 'fileSizeBytes', 'dimensions', 'dateTaken', 'metadataDate',
+  'filenameDate', 'targetDate', 'recoverableBytes',
+] as const;
+type ValueField = typeof VALUE_FIELDS[number];
+
+const FLAG_FIELDS = ['downloaded', 'deleted', 'processed'] as const;
+
+type LogEntry = Partial<Record<ValueField, unknown>> & Partial<Record<typeof FLAG_FIELDS[number], boolean>> & { id?: string | null };
+
+type Seen = { log: Source; line: number };
+type Found = Seen & { entry: LogEntry };
+
+/** One value of a disputed field and where it was read. */
+type Candidate = Seen & { value: unknown };
+
+export type MergedPhoto = {
+  id: string | null; // null: only known by filename
+  filename: string | null;
+  account: string | null;
+  storage: StorageClass | null;
+  fileSize: string | null;
+  fileSizeBytes: number | null;
+  dimensions: string | null;
+  dateTaken: string | null;
+  metadataDate: string | null;
+  filenameDate: string | null;
+  targetDate: string | null;
+  recoverableBytes: number | null;
+  downloaded: boolean;
+  deleted: boolean;
+  processed: boolean;
+  seenIn: Seen[];
+  conflicts?: Partial<Record<ValueField, Candidate[]>>;
+};
+
+type Duplicate = { id: string | null; filename: string | null; log: Source; lines: number[] };
+
+type Merged = {
+  createdAt: string;
+  logs: Record<Source, string>;
+  photos: MergedPhoto[];
+  duplicates: Duplicate[];
+  ambiguous: { filename: string; ids: string[]; lines: Seen[] }[];
+};
+
+const LIST_LIMIT = 20;
+
+/** Account of the header above `line`, for entries that do not carry one. */
+function headerAccount(headers: { header: LogHeader; line: number }[], line: number): string | null {
+  let account: string | null = null;
+  for (const h of headers) {
+    if (h.line > line) break;
+    account = h.header.account;
+  }
+  return account;
+}
+
+function mergePhoto(id: string | null, found: Found[], duplicates: Duplicate[]): MergedPhoto {
+  const byLine = new Map<string, Found[]>(); // log + compared fields -> identical entries
+  for (const f of found) {
+    const key = JSON.stringify([f.log, ...VALUE_FIELDS.map((field) => f.entry[field] ?? null), ...FLAG_FIELDS.map((field) => !!f.entry[field])]);
+    byLine.set(key, [...byLine.get(key) ?? [], f]);
+  }
+  const filenameOf = (f: Found) => (f.entry.filename as string | null | undefined) ?? null;
+  for (const same of byLine.values()) {
+    if (same.length > 1) duplicates.push({ id, filename: filenameOf(same[0]), log: same[0].log, lines: same.map((f) => f.line) });
+  }
+
+  const fields: Record<string, unknown> = { id };
+  const conflicts: MergedPhoto['conflicts'] = {};
+  for (const field of VALUE_FIELDS) {
+    const candidates: Candidate[] = found
+      .filter((f) => f.entry[field] != null)
+      .map((f) => ({ log: f.log, line: f.line, value: f.entry[field] }));
+    const distinct = new Set(candidates.map((c) => JSON.stringify(c.value)));
+    fields[field] = distinct.size === 1 ? candidates[0].value : null;
+    if (distinct.size > 1) conflicts[field] = candidates;
+  }
+  for (const field of FLAG_FIELDS) fields[field] = found.some((f) => f.entry[field] === true);
+  fields.seenIn = found.map(({ log, line }) => ({ log, line }));
+  if (Object.keys(conflicts).length) fields.conflicts = conflicts;
+  return fields as MergedPhoto;
+}
+
+function describe(candidates: Candidate[], logs: Record<Source, string>): string {
+  return candidates.map((c) => `${JSON.stringify(c.value)} (${path.basename(logs[c.log])}:${c.line})`).join(' vs ');
+}
+
+export async function merge(options: CommandOptions): Promise<void> {
+  const logs = { scan: options.profile.logs.scan, photo: options.profile.logs.photo, date: options.profile.logs.date };
+  const byId = new Map<string, Found[]>();
+  const withoutId: Found[] = [];
+
+  for (const [source, kind] of SOURCES) {
+    const { entries, headers, problems } = await parseLog<LogEntry>(logs[source], kind);
+    reportProblems(logs[source], problems);
+    console.log(`Read ${entries.length} entries from ${logs[source]}`);
+    for (const { entry, line } of entries) {
+      const found: Found = { log: source, line, entry: { ...entry, account: entry.account ?? headerAccount(headers, line) } };
+      if (entry.id) byId.set(entry.id, [...byId.get(entry.id) ?? [], found]);
+      else withoutId.push(found);
+    }
+  }
+
+  // Entries without an id join the photo that has their filename, if there is exactly one.
+  const idsByFilename = new Map<string, Set<string>>();
+  for (const [id, found] of byId) {
+    for (const f of found) {
+      if (typeof f.entry.filename === 'string') idsByFilename.set(f.entry.filename, (idsByFilename.get(f.entry.filename) ?? new Set()).add(id));
+    }
+  }
+  const byFilename = new Map<string, Found[]>();
+  const ambiguous = new Map<string, { ids: string[]; lines: Seen[] }>();
+  let joined = 0;
+  for (const f of withoutId) {
+    const filename = typeof f.entry.filename === 'string' ? f.entry.filename : '';
+    const ids = [...idsByFilename.get(filename) ?? []];
+    if (ids.length === 1) {
+      byId.get(ids[0])!.push(f);
+      joined++;
+      continue;
+    }
+    if (ids.length > 1) {
+      const known = ambiguous.get(filename) ?? { ids, lines: [] };
+      known.lines.push({ log: f.log, line: f.line });
+      ambiguous.set(filename, known);
+    }
+    byFilename.set(filename, [...byFilename.get(filename) ?? [], f]);
+  }
+
+  const duplicates: Duplicate[] = [];
+  const photos = [
+    ...[...byId].map(([id, found]) => mergePhoto(id, found, duplicates)),
+    ...[...byFilename.values()].map((found) => mergePhoto(null, found, duplicates)),
+  ];
+  const merged: Merged = {
+    createdAt: new Date().toISOString(),
+    logs,
+    photos,
+    duplicates,
+    ambiguous: [...ambiguous].map(([filename, { ids, lines }]) => ({ filename, ids, lines })),
+  };
+  const output = options.output ?? options.profile.merged;
+  await mkdir(path.dirname(output), { recursive: true });
+  await writeFile(output, JSON.stringify(merged, null, 2) + '\n', 'utf8');
+
+  const conflicted = photos.filter((p) => p.conflicts);
+  console.log(`\n${photos.length} photos (${photos.filter((p) => p.seenIn.length > 1).length} in several entries, ` +
+    `${byFilename.size} known only by filename, ${joined} entries joined by filename)`);
+  console.log(`${conflicted.length} photos with conflicting fields, ${duplicates.length} sets of duplicate lines, ` +
+    `${merged.ambiguous.length} filenames without an id that match several photos`);
+
+  const lines = [
+    ...conflicted.flatMap((p) => Object.entries(p.conflicts!).map(([field, candidates]) =>
+      `  ${p.id ?? p.filename} ${field}: ${describe(candidates, logs)}`)),
+    ...duplicates.map((d) => `  ${d.id ?? d.filename}: same entry on lines ${d.lines.join(', ')} of ${path.basename(logs[d.log])}`),
+    ...merged.ambiguous.map((a) => `  ${a.filename}: matches ${a.ids.join(', ')}; kept apart`),
+  ];
+  if (lines.length) {
+    console.log(`\n⚠ Conflicts:`);
+    lines.slice(0, LIST_LIMIT).forEach((line) => console.log(line));
+    if (lines.length > LIST_LIMIT) console.log(`  … and ${lines.length - LIST_LIMIT} more, see ${output}`);
+  }
+  console.log(`\n✅ Written to ${output}`);
+}
@@ -0,0 +1,64 @@
+/**
+ * `gphotos migrate`: rewrite the profile's scan, photo and date logs (or --log) in the
+ * current schema. Entries of older versions are upgraded (see log-schema.ts); deleted,
+ * downloaded, targetDate, processed and every other field are kept. Header lines stay
+ * where they are; update lines are folded into their entries. Bad lines are listed in full and moved to <log>.rejected, so nothing
+ * is dropped silently. The original file is copied to <log>.<time>.bak first.
+ * With --dry-run only the report is printed.
+ */
+import { access, copyFile, readFile, writeFile } from 'fs/promises';
+import type { CommandOptions } from '../cli.js';
+import { detectKind, parseLog, renderLog, replaceLog } from '../log-header.js';
+import { withLogLock } from '../log-lock.js';
+import { EntryKind, reportProblems, SCHEMA_VERSION, schemaOf } from '../log-schema.js';
+
+async function migrateLog(logFile: string, kind: EntryKind, dryRun: boolean): Promise<void> {
+  const lines = (await readFile(logFile, 'utf8')).split('\n');
+  const log = await parseLog<Record<string, unknown>>(logFile, kind);
+  const { entries, headers, problems } = log;
+  const outdated = entries.filter((e) => schemaOf(JSON.parse(lines[e.line - 1])) < SCHEMA_VERSION).length;
+  const count = (field: string, value: unknown = true) => entries.filter((e) => e.entry[field] === value).length;
+  const kept = kind === 'photo' ? `${count('deleted')} deleted, ${count('downloaded')} downloaded`
+    : kind === 'date' ? `${entries.filter((e) => e.entry.targetDate).length} with targetDate, ${count('processed')} processed`
+    : `${entries.length} items`;
+
+  console.log(`\n${logFile} (${kind} log): ${entries.length} entries, ${outdated} older than schema ${SCHEMA_VERSION}, ${headers.length} headers, ${problems.length} bad lines`);
+  console.log(`  ${kept}`);
+  reportProblems(logFile, problems, Infinity);
+  if (outdated === 0 && problems.length === 0) {
+    console.log('  ✅ Already current');
+    return;
+  }
+  if (dryRun) {
+    console.log('  Dry run: not rewritten');
+    return;
+  }
+
+  const backup = `${logFile}.${new Date().toISOString().replace(/[:.]/g, '-')}.bak`;
+  await copyFile(logFile, backup);
+  if (problems.length) {
+    await writeFile(`${logFile}.rejected`, problems.map((p) => p.text + '\n').join(''), { flag: 'a' });
+    console.log(`  ${problems.length} bad lines moved to ${logFile}.rejected`);
+  }
+  await replaceLog(logFile, renderLog(log, 'drop'));
+  console.log(`  ✅ Migrated to schema ${SCHEMA_VERSION}; original saved as ${backup}`);
+}
+
+export async function migrate(options: CommandOptions): Promise<void> {
+  const { scan, photo, date } = options.profile.logs;
+  const logs: [string, EntryKind | null][] = options.log
+    ? [[options.log, null]]
+    : [[scan, 'photo'], [photo, 'photo'], [date, 'date']];
+  for (const [logFile, knownKind] of logs) {
+    if (!await access(logFile).then(() => true, () => false)) {
+      console.log(`\n${logFile}: does not exist`);
+      continue;
+    }
+    const kind = knownKind ?? await detectKind(logFile);
+    if (!kind) {
+      console.log(`\n${logFile}: no photo, date or inventory entries; left as is`);
+      continue;
+    }
+    await withLogLock(logFile, 'migrate', () => migrateLog(logFile, kind, options.dryRun));
+  }
+}
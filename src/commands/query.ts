@@ -0,0 +1,102 @@
+/**
+ * `gphotos query`: list photos of the catalog (catalog.json, built from the scan, photo
+ * and date logs) that match all given filters: --filename (glob; an exact name is looked
+ * up in the filename index), --min-size / --max-size, --from-date / --to-date (day taken),
+ * --status and --min-date-diff (hours between filename date and metadata date).
+ * Output as JSON (an array of records) or CSV, to stdout or --output.
+ */
+import { writeFile } from 'fs/promises';
+import { CatalogRecord, updateCatalog } from '../catalog.js';
+import type { CommandOptions } from '../cli.js';
+import { localDay } from '../date-range.js';
+import { getTimeDifferenceHours, parseShortDate } from '../dates.js';
+import { globToRegExp } from '../policy.js';
+import { formatBytes } from '../sizes.js';
+
+export const QUERY_STATUSES = [
+  'free', 'counts', 'unknown', 'downloaded', 'not-downloaded', 'deleted', 'not-deleted',
+  'processed', 'not-processed', 'target', 'no-target',
+] as const;
+export type QueryStatus = typeof QUERY_STATUSES[number];
+
+/** The filters of a query besides --from-date / --to-date; null: not given. */
+export type QueryFilters = {
+  filename: string | null;
+  minSize: number | null; // bytes
+  maxSize: number | null;
+  status: QueryStatus[]; // all must hold
+  minDateDiff: number | null; // hours
+};
+
+type QueryResult = CatalogRecord & { day: string | null; dateDiffHours: number | null };
+
+const COLUMNS: (keyof QueryResult)[] = [
+  'id', 'filename', 'account', 'storage', 'fileSize', 'fileSizeBytes', 'dimensions', 'camera', 'day', 'dateTaken',
+  'metadataDate', 'filenameDate', 'dateDiffHours', 'targetDate', 'downloaded', 'deleted', 'processed', 'recoverableBytes', 'logs',
+];
+
+function hasStatus(record: CatalogRecord, status: QueryStatus): boolean {
+  switch (status) {
+    case 'free':
+    case 'counts':
+    case 'unknown': return record.storage === status;
+    case 'downloaded': return record.downloaded;
+    case 'not-downloaded': return !record.downloaded;
+    case 'deleted': return record.deleted;
+    case 'not-deleted': return !record.deleted;
+    case 'processed': return record.processed;
+    case 'not-processed': return !record.processed;
+    case 'target': return !!record.targetDate;
+    case 'no-target': return !record.targetDate;
+  }
+}
+
+function matches(result: QueryResult, options: CommandOptions): boolean {
+  const { query, dateRange } = options;
+  if (query.minSize != null && !(result.fileSizeBytes != null && result.fileSizeBytes >= query.minSize)) return false;
+  if (query.maxSize != null && !(result.fileSizeBytes != null && result.fileSizeBytes <= query.maxSize)) return false;
+  if (dateRange.from && !(result.day && result.day >= dateRange.from)) return false;
+  if (dateRange.to && !(result.day && result.day <= dateRange.to)) return false;
+  if (query.minDateDiff != null && !(result.dateDiffHours != null && result.dateDiffHours >= query.minDateDiff)) return false;
+  return query.status.every((status) => hasStatus(result, status));
+}
+
+function csvCell(value: unknown): string {
+  const text = value == null ? '' : Array.isArray(value) ? value.join(' ') : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function query(options: CommandOptions): Promise<void> {
+  const catalog = await updateCatalog(options.profile);
+  const { filename } = options.query;
+
+  let records = Object.values(catalog.photos);
+  if (filename && !/[*?]/.test(filename)) {
+    records = (catalog.byFilename[filename.toLowerCase()] ?? []).map((id) => catalog.photos[id]);
+  } else if (filename) {
+    const pattern = globToRegExp(filename);
+    records = records.filter((r) => r.filename && pattern.test(r.filename));
+  }
+
+  const results = records
+    .map((record): QueryResult => ({
+      ...record,
+      day: localDay(record.metadataDate) ?? (record.dateTaken && parseShortDate(record.dateTaken)) ?? null,
+      dateDiffHours: getTimeDifferenceHours(record.filenameDate, record.metadataDate),
+    }))
+    .filter((result) => matches(result, options))
+    .sort((a, b) => (b.day ?? '').localeCompare(a.day ?? ''));
+
+  const bytes = results.reduce((sum, r) => sum + (r.fileSizeBytes ?? 0), 0);
+  console.error(`${results.length} of ${Object.keys(catalog.photos).length} photos match (${formatBytes(bytes)})`);
+
+  const output = options.format === 'csv'
+    ? [COLUMNS, ...results.map((r) => COLUMNS.map((c) => r[c]))].map((row) => row.map(csvCell).join(',')).join('\n') + '\n'
+    : JSON.stringify(results, null, 2) + '\n';
+  if (options.output) {
+    await writeFile(options.output, output, 'utf8');
+    console.error(`✅ Written to ${options.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * `gphotos reconcile`: check that every trashed original of the scan log (--log) came back
+ * after the download → delete → upload cycle. Each one is matched against the photos of a
+ * fresh scan of the library (--fresh-log, default the same log) by filename, day taken and
+ * dimensions, and reported as restored as free, restored but still counting toward storage,
+ * or missing. Missing originals are listed with the days left before Google Photos purges
+ * them from trash (60 days after deletedAt; older entries get it from the update line that
+ * deleted them when the log is read, or compacted).
+ */
+import type { CommandOptions } from '../cli.js';
+import { localDay } from '../date-range.js';
+import { parseShortDate } from '../dates.js';
+import { nameKey } from '../id-map.js';
+import { readEntries } from '../log-header.js';
+import type { StorageClass } from '../types.js';
+
+/** Google Photos empties the trash 60 days after an item was moved there. */
+const TRASH_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type LogEntry = {
+  id: string | null;
+  filename: string | null;
+  storage?: StorageClass;
+  dimensions?: string | null;
+  dateTaken?: string | null;
+  metadataDate?: string | null;
+  filenameDate?: string | null;
+  deleted?: boolean;
+  deletedAt?: string;
+};
+
+type Photo = LogEntry & { id: string; filename: string };
+
+type Outcome = 'free' | 'counts' | 'unknown' | 'missing';
+
+type Reconciled = { original: Photo; outcome: Outcome; copy: Photo | null; daysLeft: number | null };
+
+function daysOf(photo: Photo): string[] {
+  const days = [localDay(photo.metadataDate), localDay(photo.filenameDate), photo.dateTaken ? parseShortDate(photo.dateTaken) : null];
+  return days.filter((day): day is string => !!day);
+}
+
+/** How well `copy` fits `original`, or null if the day or the dimensions rule it out. */
+function score(original: Photo, copy: Photo): number | null {
+  let points = original.filename === copy.filename ? 1 : 0;
+  if (original.dimensions && copy.dimensions) {
+    if (original.dimensions !== copy.dimensions) return null;
+    points += 2;
+  }
+  const [a, b] = [daysOf(original), daysOf(copy)];
+  if (a.length && b.length) {
+    if (!a.some((day) => b.includes(day))) return null;
+    points += 2;
+  }
+  return points;
+}
+
+/** Days until the trash purge of a photo trashed at `deletedAt`; negative once purged. */
+function daysLeft(deletedAt: string | undefined): number | null {
+  const time = deletedAt ? new Date(deletedAt).getTime() : NaN;
+  if (isNaN(time)) return null;
+  return Math.floor(TRASH_DAYS - (Date.now() - time) / DAY_MS);
+}
+
+function withName(entry: LogEntry): entry is Photo {
+  return !!entry.id && !!entry.filename;
+}
+
+export async function reconcile(options: CommandOptions): Promise<void> {
+  const freshLog = options.freshLog ?? options.log;
+  const originals = (await readEntries<LogEntry>(options.log, 'photo')).filter((e) => e.deleted).filter(withName);
+  const deletedIds = new Set(originals.map((o) => o.id));
+  const fresh = (await readEntries<LogEntry>(freshLog, 'photo')).filter((e) => !e.deleted && !deletedIds.has(e.id ?? '')).filter(withName);
+  console.log(`${originals.length} trashed originals in ${options.log}, ${fresh.length} photos in ${freshLog}`);
+
+  const copiesByName = new Map<string, Photo[]>();
+  for (const photo of fresh) copiesByName.set(nameKey(photo.filename), [...copiesByName.get(nameKey(photo.filename)) ?? [], photo]);
+
+  // Best pairs first, each copy is the re-upload of at most one original
+  const pairs = originals.flatMap((original) => (copiesByName.get(nameKey(original.filename)) ?? [])
+    .map((copy) => ({ original, copy, points: score(original, copy) }))
+    .filter((p): p is { original: Photo; copy: Photo; points: number } => p.points !== null))
+    .sort((a, b) => b.points - a.points);
+  const copyOf = new Map<string, Photo>();
+  const used = new Set<string>();
+  for (const { original, copy } of pairs) {
+    if (copyOf.has(original.id) || used.has(copy.id)) continue;
+    copyOf.set(original.id, copy);
+    used.add(copy.id);
+  }
+
+  const results: Reconciled[] = originals.map((original) => {
+    const copy = copyOf.get(original.id) ?? null;
+    return {
+      original,
+      copy,
+      outcome: copy ? copy.storage ?? 'unknown' : 'missing',
+      daysLeft: copy ? null : daysLeft(original.deletedAt),
+    };
+  });
+  const of = (outcome: Outcome) => results.filter((r) => r.outcome === outcome);
+
+  console.log(`\n✅ Restored as free: ${of('free').length}`);
+  console.log(`⚠ Restored but still counts toward storage: ${of('counts').length}`);
+  console.log(`⚠ Restored, storage status unknown: ${of('unknown').length}`);
+  console.log(`❌ Missing: ${of('missing').length}`);
+
+  for (const outcome of ['counts', 'unknown'] as const) {
+    if (!of(outcome).length) continue;
+    console.log(`\n${outcome === 'counts' ? 'Still counting toward storage' : 'Storage status unknown'} (original → copy):`);
+    for (const { original, copy } of of(outcome)) console.log(`  ${original.filename}: ${original.id} → ${copy!.id}`);
+  }
+
+  const missing = of('missing').sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity));
+  if (missing.length) {
+    console.log('\nMissing, by days left before the trash is emptied:');
+    for (const { original, daysLeft: days } of missing) {
+      const left = days === null ? 'trash date unknown' : days < 0 ? `purged ${-days} days ago` : `${days} days left`;
+      console.log(`  ${original.filename} (${original.id}): ${left}`);
+    }
+    console.log('Push their local copies again (gphotos upload) or restore them from trash before they are purged.');
+  }
+}
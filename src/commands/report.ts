@@ -0,0 +1,260 @@
+/**
+ * `gphotos report`: summarize the scan log and the photo log without opening Chrome.
+ * Counts and bytes of free / non-free / unknown-storage photos and of downloaded / deleted / pending
+ * non-free photos, overall, by month of dateTaken, by filename family and by camera, plus the
+ * largest non-free photos. Output as text, CSV or a self-contained HTML page.
+ * Photos that appear in both logs are counted once, with their fields merged.
+ */
+import { access, writeFile } from 'fs/promises';
+import type { CommandOptions } from '../cli.js';
+import { parseShortDate } from '../dates.js';
+import { parseLog } from '../log-header.js';
+import { reportProblems } from '../log-schema.js';
+import { cameraOf } from '../metadata.js';
+import { formatBytes, parseSize } from '../sizes.js';
+import { storageOf } from '../storage.js';
+import type { PhotoMetadata, StorageClass } from '../types.js';
+
+type LogEntry = {
+  id?: string | null;
+  filename?: string | null;
+  free?: boolean;
+  storage?: StorageClass;
+  fileSize?: string | null;
+  fileSizeBytes?: number | null;
+  recoverableBytes?: number | null;
+  dateTaken?: string | null;
+  metadataDate?: string | null;
+  metadata?: PhotoMetadata;
+  downloaded?: boolean;
+  deleted?: boolean;
+};
+
+const BUCKETS = ['free', 'unknown', 'nonFree', 'downloaded', 'deleted', 'pending'] as const;
+type Bucket = typeof BUCKETS[number];
+
+const BUCKET_LABELS: Record<Bucket, string> = {
+  free: 'Free',
+  unknown: 'Unknown',
+  nonFree: 'Non-free',
+  downloaded: 'Downloaded',
+  deleted: 'Deleted',
+  pending: 'Pending',
+};
+
+type Tally = { photos: number; bytes: number };
+type Stats = { photos: number } & Record<Bucket, Tally>;
+
+type Group = { name: string; id?: string; stats: Stats };
+type Section = { key: string; title: string; column: string; groups: Group[] };
+
+const FAMILIES = ['PXL_', 'IMG_', 'Screenshot_', 'VID_'];
+
+function emptyStats(): Stats {
+  const stats = { photos: 0 } as Stats;
+  for (const bucket of BUCKETS) stats[bucket] = { photos: 0, bytes: 0 };
+  return stats;
+}
+
+function bytesOf(entry: LogEntry): number {
+  return entry.fileSizeBytes ?? parseSize(entry.fileSize) ?? 0;
+}
+
+/** Non-free photos are either deleted, downloaded (not yet deleted) or pending. */
+function bucketsOf(entry: LogEntry): Bucket[] {
+  const storage = storageOf(entry);
+  if (storage !== 'counts') return [storage];
+  if (entry.deleted) return ['nonFree', 'deleted'];
+  if (entry.downloaded) return ['nonFree', 'downloaded'];
+  return ['nonFree', 'pending'];
+}
+
+function add(stats: Stats, entry: LogEntry): void {
+  stats.photos++;
+  for (const bucket of bucketsOf(entry)) {
+    stats[bucket].photos++;
+    stats[bucket].bytes += bucket === 'deleted' ? entry.recoverableBytes ?? bytesOf(entry) : bytesOf(entry);
+  }
+}
+
+/** "2023-05" from metadataDate, else from the "Date taken" text if it has a year. */
+function monthOf(entry: LogEntry): string {
+  if (entry.metadataDate) return entry.metadataDate.slice(0, 7);
+  return (entry.dateTaken && parseShortDate(entry.dateTaken)?.slice(0, 7)) || 'unknown';
+}
+
+function familyOf(entry: LogEntry): string {
+  return FAMILIES.find((prefix) => entry.filename?.startsWith(prefix)) ?? 'other';
+}
+
+/** Entries of all logs, one per photo id; later lines update earlier ones. */
+async function readEntries(logFiles: string[]): Promise<LogEntry[]> {
+  const byId = new Map<string, LogEntry>();
+  const withoutId: LogEntry[] = [];
+  for (const logFile of logFiles) {
+    const { entries, problems } = await parseLog<LogEntry>(logFile, 'photo');
+    reportProblems(logFile, problems);
+    for (const { entry } of entries) {
+      if (!entry.id) {
+        withoutId.push(entry);
+        continue;
+      }
+      byId.set(entry.id, { ...byId.get(entry.id), ...entry });
+    }
+    console.error(`Read ${entries.length} entries from ${logFile}`);
+  }
+  return [...byId.values(), ...withoutId];
+}
+
+function groupBy(entries: LogEntry[], keyOf: (entry: LogEntry) => string): Group[] {
+  const groups = new Map<string, Stats>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    if (!groups.has(key)) groups.set(key, emptyStats());
+    add(groups.get(key)!, entry);
+  }
+  return [...groups].map(([name, stats]) => ({ name, stats }));
+}
+
+function buildReport(entries: LogEntry[], top: number): Section[] {
+  const total = emptyStats();
+  for (const entry of entries) add(total, entry);
+
+  const byMonth = groupBy(entries, monthOf)
+    .sort((a, b) => (a.name === 'unknown' ? 1 : b.name === 'unknown' ? -1 : a.name.localeCompare(b.name)));
+  const byFamily = groupBy(entries, familyOf)
+    .sort((a, b) => [...FAMILIES, 'other'].indexOf(a.name) - [...FAMILIES, 'other'].indexOf(b.name));
+
+  const byCamera = groupBy(entries, (entry) => cameraOf(entry.metadata) ?? 'unknown')
+    .sort((a, b) => (a.name === 'unknown' ? 1 : b.name === 'unknown' ? -1 : b.stats.photos - a.stats.photos));
+
+  const largest = entries
+    .filter((e) => storageOf(e) === 'counts')
+    .sort((a, b) => bytesOf(b) - bytesOf(a))
+    .slice(0, top)
+    .map((entry) => {
+      const stats = emptyStats();
+      add(stats, entry);
+      return { name: entry.filename ?? '(no filename)', id: entry.id ?? undefined, stats };
+    });
+
+  return [
+    { key: 'total', title: 'All photos', column: '', groups: [{ name: 'all', stats: total }] },
+    { key: 'month', title: 'By month taken', column: 'Month', groups: byMonth },
+    { key: 'family', title: 'By filename family', column: 'Family', groups: byFamily },
+    { key: 'camera', title: 'By camera', column: 'Camera', groups: byCamera },
+    { key: 'largest', title: `Largest ${largest.length} non-free photos`, column: 'Photo', groups: largest },
+  ];
+}
+
+function tally({ photos, bytes }: Tally): string {
+  return photos ? `${photos} (${formatBytes(bytes)})` : '0';
+}
+
+function tableRows(section: Section): string[][] {
+  const header = [section.column, 'Photos', ...BUCKETS.map((b) => BUCKET_LABELS[b])];
+  const rows = section.groups.map((g) => [
+    g.id ? `${g.name} (${g.id})` : g.name,
+    String(g.stats.photos),
+    ...BUCKETS.map((b) => tally(g.stats[b])),
+  ]);
+  return [header, ...rows];
+}
+
+function renderText(sections: Section[]): string {
+  const out: string[] = [];
+  for (const section of sections) {
+    const rows = tableRows(section);
+    const widths = rows[0].map((_, col) => Math.max(...rows.map((r) => r[col].length)));
+    out.push(section.title, '');
+    for (const row of rows) {
+      out.push('  ' + row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join('  '));
+    }
+    out.push('');
+  }
+  return out.join('\n');
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per group; bytes are exact numbers so the sheet can sum them. */
+function renderCsv(sections: Section[]): string {
+  const header = ['section', 'name', 'id', 'photos', ...BUCKETS.flatMap((b) => [`${b}_photos`, `${b}_bytes`])];
+  const rows = sections.flatMap((section) => section.groups.map((g) => [
+    section.key,
+    g.name,
+    g.id ?? '',
+    g.stats.photos,
+    ...BUCKETS.flatMap((b) => [g.stats[b].photos, g.stats[b].bytes]),
+  ]));
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderHtml(sections: Section[], sources: string[]): string {
+  const tables = sections.map((section) => {
+    const [header, ...rows] = tableRows(section);
+    return [
+      `<h2>${escapeHtml(section.title)}</h2>`,
+      '<table>',
+      `<tr>${header.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`,
+      ...rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+      '</table>',
+    ].join('\n');
+  });
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Google Photos report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 2em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+th { background: #f0f0f0; }
+</style>
+</head>
+<body>
+<h1>Google Photos report</h1>
+<p>${sources.map(escapeHtml).join('<br>')}<br>Generated ${new Date().toISOString()}</p>
+${tables.join('\n')}
+</body>
+</html>
+`;
+}
+
+async function exists(file: string): Promise<boolean> {
+  return access(file).then(() => true, () => false);
+}
+
+export async function report(options: CommandOptions): Promise<void> {
+  const candidates = options.log ? [options.log] : [options.profile.logs.scan, options.profile.logs.photo];
+  const logFiles: string[] = [];
+  for (const file of candidates) {
+    if (await exists(file)) logFiles.push(file);
+    else console.error(`⚠ ${file} does not exist`);
+  }
+  if (logFiles.length === 0) {
+    console.error('No logs to report on.');
+    return;
+  }
+
+  const sections = buildReport(await readEntries(logFiles), options.top);
+  const output = options.format === 'csv' ? renderCsv(sections)
+    : options.format === 'html' ? renderHtml(sections, logFiles)
+    : renderText(sections);
+
+  if (options.output) {
+    await writeFile(options.output, output, 'utf8');
+    console.error(`✅ Report written to ${options.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
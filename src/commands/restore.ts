@@ -0,0 +1,128 @@
+/**
+ * `gphotos restore`: undo deletions recorded in a log. Selects trashed entries by --ids,
+ * by --run (photos trashed by that run of runs.log), by --deleted-after and by --filename;
+ * given together, all must hold. Each photo is opened at /trash/<id>, restored, and then
+ * must show up at its /photo/<id> page in the library; an update line sets deleted back to
+ * false with restoredAt, so `delete` does not trash it again. Photos that are no longer in
+ * the trash (purged or already restored) or do not come back are listed at the end.
+ * With --dry-run only the selection is printed.
+ */
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { UsageError } from '../errors.js';
+import { appendUpdate } from '../journal.js';
+import { LogHeader, parseLog } from '../log-header.js';
+import { reportProblems } from '../log-schema.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import { globToRegExp } from '../policy.js';
+import { readRuns, RunStats } from '../run-stats.js';
+
+/** Which trashed photos to restore; empty / null: not given. */
+export type RestoreSelection = {
+  ids: string[];
+  runId: string | null;
+  deletedAfter: string | null; // ISO time
+};
+
+type LogEntry = {
+  id: string | null;
+  filename: string | null;
+  deleted?: boolean;
+  deletedAt?: string;
+};
+
+type Trashed = { entry: LogEntry & { id: string }; trashedAt: string | null; runId: string | null };
+
+/** For entries without a trash time: the run of the header above `line` if it is a clean run (which trashes while logging). */
+function cleanRunAt(headers: { header: LogHeader; line: number }[], line: number): string | null {
+  const header = headers.filter((h) => h.line < line).pop()?.header;
+  return header?.command === 'clean' ? header.runId : null;
+}
+
+async function selectTrashed(options: CommandOptions): Promise<Trashed[]> {
+  const { ids, runId, deletedAfter } = options.restore;
+  const filename = options.query.filename;
+  if (!ids.length && !runId && !deletedAfter && !filename) {
+    throw new UsageError('restore needs --ids, --run, --deleted-after or --filename');
+  }
+
+  let window: { from: string; to: string } | null = null;
+  if (runId) {
+    const run = (await readRuns(options.profile.runLog)).find((r) => r.runId === runId);
+    if (!run) throw new UsageError(`No run ${runId} in ${options.profile.runLog}`);
+    window = { from: run.startedAt, to: run.endedAt ?? new Date().toISOString() };
+  }
+
+  const log = await parseLog<LogEntry>(options.log, 'photo');
+  reportProblems(options.log, log.problems);
+  const pattern = filename ? globToRegExp(filename) : null;
+  const byId = new Map<string, Trashed>(); // the last entry of an id
+  for (const { entry, line } of log.entries) {
+    if (!entry.id || !entry.deleted) continue;
+    const trashedAt = entry.deletedAt ?? null; // older entries: from the update line that deleted them
+    byId.set(entry.id, { entry: { ...entry, id: entry.id }, trashedAt, runId: trashedAt ? null : cleanRunAt(log.headers, line) });
+  }
+
+  return [...byId.values()].filter(({ entry, trashedAt, runId: trashRun }) => {
+    if (ids.length && !ids.includes(entry.id)) return false;
+    if (pattern && !(entry.filename && pattern.test(entry.filename))) return false;
+    if (deletedAfter && !(trashedAt && new Date(trashedAt) > new Date(deletedAfter))) return false;
+    if (window) {
+      const inWindow = trashedAt && trashedAt >= window.from && trashedAt <= window.to;
+      if (!inWindow && trashRun !== runId) return false;
+    }
+    return true;
+  });
+}
+
+export async function restore(options: CommandOptions, run: RunStats): Promise<void> {
+  const selected = await selectTrashed(options);
+  const unknown = options.restore.ids.filter((id) => !selected.some((s) => s.entry.id === id));
+  console.log(`${selected.length} trashed photos selected in ${options.log}`);
+  if (unknown.length) console.log(`⚠ Not trashed according to the log: ${unknown.join(', ')}`);
+  if (!selected.length) return;
+  if (options.dryRun) {
+    for (const { entry, trashedAt } of selected) console.log(`🔍 Would restore ${entry.filename} (${entry.id}), trashed ${trashedAt ?? 'at an unknown time'}`);
+    return;
+  }
+
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page);
+  await viewer.openLibrary();
+  run.account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+
+  const failed: { entry: LogEntry; problem: string }[] = [];
+  for (const [i, { entry }] of selected.entries()) {
+    console.log(`\n[${i + 1}/${selected.length}] ${entry.filename} (${entry.id})`);
+    try {
+      await viewer.openTrashedPhoto(entry.id);
+      const inTrash = await viewer.readInfo().catch(() => null);
+      if (!inTrash || inTrash.id !== entry.id || !session.page.url().includes('/trash/')) {
+        failed.push({ entry, problem: 'not in the trash (purged or already restored)' });
+        console.error('❌ Not in the trash');
+        continue;
+      }
+      await viewer.restore();
+      await viewer.openPhoto(entry.id);
+      const back = await viewer.readInfo().catch(() => null);
+      if (!back || back.id !== entry.id || session.page.url().includes('/trash/')) {
+        failed.push({ entry, problem: 'restored, but not found in the library' });
+        console.error('❌ Not back in the library');
+        continue;
+      }
+      await appendUpdate(options.log, entry.id, { deleted: false, restoredAt: new Date().toISOString() }, 'restore');
+      console.log('✅ Restored, back in the library');
+    } catch (error) {
+      failed.push({ entry, problem: (error as Error).message });
+      console.error('❌', error);
+    }
+    await session.page.waitForTimeout(500);
+  }
+
+  console.log(`\nRestored ${selected.length - failed.length} of ${selected.length} photos`);
+  if (failed.length) {
+    console.log(`⚠ ${failed.length} not restored:`);
+    for (const { entry, problem } of failed) console.log(`  ${entry.filename} (${entry.id}): ${problem}`);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * `gphotos scan`: walk all photos (ArrowRight, or ArrowLeft with --direction left),
+ * download non-free photos, write log. With --from-date/--to-date the walk starts at
+ * the first photo in range and stops at the first one past it.
+ * Every photo (free and non-free) is appended to the log, one JSON object per line,
+ * so a re-run resumes after the last logged photo.
+ * Which photos are downloaded is decided by the selection policy (--policy); by default
+ * every non-free one. The chosen action and rule are written into each entry.
+ * Photos whose storage status is unknown are never downloaded; they go to review.log.
+ * With --incremental (for a nightly cron job) only new uploads are processed: the walk
+ * starts at the newest photo and stops at the first one already in the log. Those
+ * entries get incremental: true and the runId, and are not used as the checkpoint of a
+ * full scan. Photos logged by an incremental run that did not finish are passed over
+ * instead of stopping the walk, so the photos below them are not missed.
+ * With --album or --search only that collection is walked. Each run first appends a
+ * header line with the scope; the checkpoint is the last entry logged in the same scope.
+ * With --inventory the photos of inventory.log (see `gphotos inventory scan`) that are
+ * not in the log yet are opened one by one by id instead of walking the viewer.
+ */
+import { writeFile } from 'fs/promises';
+import { mkdir } from 'fs/promises';
+import { readRecordedAccount, verifyAccount } from '../account.js';
+import { connect, setDownloadDir } from '../browser.js';
+import type { CommandOptions } from '../cli.js';
+import { describeRange, hasBounds, localDay, rangePosition } from '../date-range.js';
+import { StuckError, UsageError } from '../errors.js';
+import { inventoryToVisit } from '../inventory.js';
+import { appendLogHeader, readScopedEntries } from '../log-header.js';
+import { toLogLine } from '../log-schema.js';
+import { PhotoViewer } from '../photo-viewer.js';
+import { decide, describeDecision, loadPolicy, PolicyAction, shouldDownload } from '../policy.js';
+import { addToReview } from '../review.js';
+import { readRuns, recordDownload, RunStats } from '../run-stats.js';
+import { describeScope, sameScope, Scope } from '../scope.js';
+import type { PhotoInfo } from '../types.js';
+import { DownloadRecord, verifyDownload } from '../verify-download.js';
+
+type ScanLogEntry = PhotoInfo & Partial<DownloadRecord> & {
+  account: string | null; // Google account the photo was seen in
+  downloaded?: boolean; // true only once the file on disk was verified
+  downloadError?: string;
+  action: PolicyAction; // what the selection policy chose
+  rule: string | null; // the policy rule that chose it, null for the default
+  incremental?: boolean; // logged by an --incremental run
+  runId?: string; // the incremental run, see runs.log
+};
+
+async function appendToLog(logFile: string, entry: ScanLogEntry): Promise<void> {
+  await writeFile(logFile, toLogLine(entry), { flag: 'a' });
+}
+
+/** Checkpoint of the full scan of `scope`: its last entry not written by an --incremental run. */
+function getLastLogged(logged: { entry: ScanLogEntry; scope: Scope }[], scope: Scope): ScanLogEntry | null {
+  return logged.filter((l) => sameScope(l.scope, scope) && !l.entry.incremental).pop()?.entry ?? null;
+}
+
+export async function scan(options: CommandOptions, run: RunStats): Promise<void> {
+  const { dateRange: range, direction, incremental } = options;
+  if (incremental && (options.startId || hasBounds(range) || direction !== 'right')) {
+    throw new UsageError('--incremental cannot be combined with --start-id, --from-date, --to-date or --direction');
+  }
+  if (options.useInventory && (incremental || options.startId)) {
+    throw new UsageError('--inventory cannot be combined with --incremental or --start-id');
+  }
+  const logged = await readScopedEntries<ScanLogEntry>(options.log, 'photo');
+  const entries = logged.map((l) => l.entry);
+  const knownIds = new Set(entries.map((e) => e.id).filter((id): id is string => !!id));
+  const finishedRuns = new Set((await readRuns(options.profile.runLog)).filter((r) => r.exitCode === 0).map((r) => r.runId));
+  const stopIds = new Set(entries
+    .filter((e) => e.id && (!e.incremental || (e.runId && finishedRuns.has(e.runId))))
+    .map((e) => e.id!));
+  if (incremental && knownIds.size === 0) {
+    throw new UsageError(`--incremental needs a scan log from a full scan; ${options.log} has no photos`);
+  }
+  const inventory = options.useInventory
+    ? await inventoryToVisit(options.profile.logs.inventory, options.scope, knownIds, range, direction)
+    : null;
+  if (options.startId) console.log('Starting from photo id:', options.startId);
+  const policy = await loadPolicy(options.policyFile);
+
+  const session = await connect(options.cdp);
+  const viewer = new PhotoViewer(session.page, options.scope);
+
+  await mkdir(options.downloadDir, { recursive: true });
+  await setDownloadDir(session, options.downloadDir);
+  console.log('Downloads to:', options.downloadDir);
+
+  await viewer.openLibrary();
+  const account = await verifyAccount(viewer, options.profile.account ?? await readRecordedAccount(options.log));
+  run.account = account;
+  console.log(`Scanning ${describeScope(options.scope)}`);
+  await appendLogHeader(options.log, { command: 'scan', scope: options.scope, account, runId: run.runId });
+
+  if (hasBounds(range)) console.log(`Photos taken from ${describeRange(range)}, walking ${direction}`);
+
+  const mark = incremental ? { incremental: true, runId: run.runId } : {};
+  const logPhoto = async (info: PhotoInfo) => {
+    const meta = [info.filename, info.dateTaken ?? '', info.fileSize ?? ''].filter(Boolean).join(' · ');
+    console.log('Current:', meta, info.storage === 'counts' ? `(${info.fileSize})` : `(${info.storage})`);
+
+    const decision = decide(policy, info);
+    if (!shouldDownload(decision.action)) {
+      if (decision.action === 'review') await addToReview(options.profile.reviewLog, info, 'scan', account);
+      else if (decision.rule) console.log(`Policy: ${describeDecision(decision)}`);
+      await appendToLog(options.log, { ...info, account, ...decision, ...mark });
+    } else {
+      try {
+        const localPath = await viewer.download(options.downloadDir, [options.doneDir]);
+        const record = await verifyDownload(localPath, info.filename, info.fileSize);
+        await appendToLog(options.log, { ...info, account, ...decision, ...mark, downloaded: true, ...record });
+        recordDownload(run, record.bytes);
+        console.log('Logged non-free:', info.filename, `(${record.bytes} bytes, sha256 ${record.sha256.slice(0, 12)}…)`);
+      } catch (err) {
+        console.error('Download error:', err);
+        await appendToLog(options.log, { ...info, account, ...decision, ...mark, downloaded: false, downloadError: (err as Error).message });
+      }
+    }
+  };
+
+  if (inventory) {
+    console.log(`Inventory: ${inventory.length} photos not in ${options.log} yet`);
+    for (const item of inventory) {
+      await viewer.openPhoto(item.id);
+      const info = await viewer.readInfo();
+      if (info.id !== item.id) {
+        console.log(`⚠ ${item.id} opened as ${info.id}; skipping`);
+        continue;
+      }
+      if (rangePosition(localDay(info.metadataDate), range, direction) !== 'in') {
+        console.log(`Skipping ${info.filename} (${info.dateTaken}), not in range`);
+        continue;
+      }
+      await logPhoto(info);
+    }
+    console.log(`✅ Done with the ${inventory.length} inventory photos`);
+    return;
+  }
+
+  // A checkpoint outside the date range belongs to another run; start at the range instead
+  const last = options.startId || incremental ? null : getLastLogged(logged, options.scope);
+  const startId = options.startId
+    ?? (last?.id && rangePosition(localDay(last.metadataDate), range, direction) === 'in' ? last.id : null);
+  if (startId) {
+    console.log(options.startId ? 'Using --start-id as starting point' : `Resuming from last logged photo: ${startId}`);
+    await viewer.openPhoto(startId);
+    await viewer.move(direction);
+  } else if (!await viewer.openWalkStart(range, direction)) {
+    console.log(`No photos taken from ${describeRange(range)}`);
+    return;
+  }
+
+  if (incremental) console.log(`Incremental: new photos until one of the ${stopIds.size} logged ones`);
+  let newPhotos = 0;
+  let previousPhotoInfo: PhotoInfo | null = null;
+
+  while (true) {
+    const currentPhotoInfo = await viewer.readInfoAfterMove(previousPhotoInfo, direction);
+    if (!currentPhotoInfo) {
+      throw new StuckError(`Stuck after retries; last: ${previousPhotoInfo?.id ?? previousPhotoInfo?.filename}`);
+    }
+    if (incremental && currentPhotoInfo.id && stopIds.has(currentPhotoInfo.id)) {
+      console.log(`✅ Reached ${currentPhotoInfo.filename} (${currentPhotoInfo.id}), already logged; ${newPhotos} new photos`);
+      return;
+    }
+    if (incremental && currentPhotoInfo.id && knownIds.has(currentPhotoInfo.id)) {
+      console.log(`Passing ${currentPhotoInfo.filename}, logged by an unfinished incremental run`);
+      await viewer.move(direction);
+      previousPhotoInfo = currentPhotoInfo;
+      continue;
+    }
+    const position = rangePosition(localDay(currentPhotoInfo.metadataDate), range, direction);
+    if (position === 'after') {
+      console.log(`✅ Reached ${currentPhotoInfo.dateTaken}, past ${describeRange(range)}; done`);
+      return;
+    }
+    if (position === 'before') {
+      console.log(`Skipping ${currentPhotoInfo.filename} (${currentPhotoInfo.dateTaken}), not in range yet`);
+      await viewer.move(direction);
+      previousPhotoInfo = currentPhotoInfo;
+      continue;
+    }
+    newPhotos++;
+    await logPhoto(currentPhotoInfo);
+    await viewer.move(direction);
+
+    previousPhotoInfo = currentPhotoInfo;
+  }
+}
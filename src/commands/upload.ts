@@ -0,0 +1,132 @@
+/**
+ * `gphotos upload`: re-upload the downloads by pushing them to an Android phone with adb
+ * (Google Photos on the phone backs them up again as free photos). For each file of the
+ * download dir: adb push to the remote dir, compare the size on the phone (adb shell stat),
+ * ask the media scanner to index it, append an update with pushed: true and pushedAt to its
+ * log entry (the one that recorded the file's localPath, else its sha256) and move the file
+ * to the done dir. A failed file is reported and left in the
+ * download dir, so running the command again retries exactly what is left. A file whose
+ * entry already says pushed (interrupted before the move) is only moved.
+ * Replaces sendadb.sh.
+ */
+import { copyFile, mkdir, readdir, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import { checkDevice, mediaScan, push, remoteSize } from '../adb.js';
+import type { CommandOptions } from '../cli.js';
+import { DeviceUnavailableError, GphotosError } from '../errors.js';
+import { appendUpdate } from '../journal.js';
+import { readEntries } from '../log-header.js';
+import { lockLog } from '../log-lock.js';
+import { recordPush, RunStats } from '../run-stats.js';
+import { formatBytes } from '../sizes.js';
+import { sha256File } from '../verify-download.js';
+
+type LogEntry = {
+  id: string | null;
+  filename: string | null;
+  localPath?: string;
+  sha256?: string;
+  downloaded?: boolean;
+  pushed?: boolean;
+};
+
+type Logged = { logFile: string; entry: LogEntry & { id: string } };
+
+/** Downloaded entries by resolved localPath and by sha256; a later entry of the same key wins. */
+type LoggedIndex = { byPath: Map<string, Logged>; bySha256: Map<string, Logged> };
+
+/** Skipped in the download dir: Chrome's partial downloads and hidden files. */
+function isPhotoFile(name: string): boolean {
+  return !name.startsWith('.') && !name.endsWith('.crdownload') && !name.endsWith('.tmp');
+}
+
+async function readLogged(logFiles: string[]): Promise<LoggedIndex> {
+  const index: LoggedIndex = { byPath: new Map(), bySha256: new Map() };
+  for (const logFile of logFiles) {
+    for (const entry of await readEntries<LogEntry>(logFile, 'photo')) {
+      if (!entry.id || !entry.downloaded) continue;
+      const logged = { logFile, entry: { ...entry, id: entry.id } };
+      if (entry.localPath) index.byPath.set(path.resolve(entry.localPath), logged);
+      if (entry.sha256) index.bySha256.set(entry.sha256, logged);
+    }
+  }
+  return index;
+}
+
+/**
+ * The entry a file of the download dir was downloaded for: the one that recorded its path,
+ * else the one with its SHA-256. Not by file name, which several photos can share.
+ */
+async function findLogged(index: LoggedIndex, localFile: string): Promise<Logged | undefined> {
+  return index.byPath.get(path.resolve(localFile)) ?? index.bySha256.get(await sha256File(localFile));
+}
+
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await copyFile(from, to);
+    await rm(from);
+  }
+}
+
+export async function upload(options: CommandOptions, run: RunStats): Promise<void> {
+  const { downloadDir, doneDir, adb: target } = options;
+  const names = (await readdir(downloadDir).catch(() => [] as string[])).filter(isPhotoFile).sort();
+  console.log(`${names.length} files in ${downloadDir}`);
+  if (!names.length) return;
+
+  // The --log (scan log) is locked by the CLI; the photo log holds clean's downloads.
+  const logFiles = [...new Set([options.log, options.photoLog])];
+  const logged = await readLogged(logFiles);
+  if (options.dryRun) {
+    for (const name of names) {
+      const entry = await findLogged(logged, path.join(downloadDir, name));
+      console.log(`🔍 Would push ${name} to ${target.remoteDir}${entry ? '' : ' (not in the logs)'}${entry?.entry.pushed ? ' (already pushed, only moved)' : ''}`);
+    }
+    return;
+  }
+
+  await checkDevice(target);
+  await mkdir(doneDir, { recursive: true });
+  const release = options.photoLog !== options.log ? await lockLog(options.photoLog, 'upload') : null;
+  const failed: string[] = [];
+  try {
+    for (const [i, name] of names.entries()) {
+      const localFile = path.join(downloadDir, name);
+      const entry = await findLogged(logged, localFile);
+      console.log(`\n[${i + 1}/${names.length}] ${name}`);
+      if (entry?.entry.pushed) {
+        console.log('  Already pushed, moving it to the done dir');
+      } else {
+        try {
+          const bytes = (await stat(localFile)).size;
+          const remoteFile = await push(target, localFile);
+          const remoteBytes = await remoteSize(target, remoteFile);
+          if (remoteBytes !== bytes) {
+            throw new GphotosError(`${remoteFile} has ${remoteBytes ?? 'no'} bytes on the phone, ${bytes} here`);
+          }
+          await mediaScan(target, remoteFile).catch((error: Error) => console.log(`  ⚠ Media scan failed: ${error.message}`));
+          recordPush(run, bytes);
+          if (entry) await appendUpdate(entry.logFile, entry.entry.id, { pushed: true, pushedAt: new Date().toISOString() }, 'upload');
+          else console.log('  ⚠ Not in the logs, nothing recorded');
+          console.log(`  ✅ Pushed ${formatBytes(bytes)} to ${remoteFile}`);
+        } catch (error) {
+          if (error instanceof DeviceUnavailableError) throw error;
+          console.log(`  ❌ ${(error as Error).message}`);
+          failed.push(name);
+          continue;
+        }
+      }
+      await moveFile(localFile, path.join(doneDir, name));
+    }
+  } finally {
+    await release?.();
+  }
+
+  console.log(`\nPushed ${run.photosPushed} files (${formatBytes(run.bytesPushed ?? 0)}) to ${target.remoteDir}`);
+  if (failed.length) {
+    throw new GphotosError(`${failed.length} files could not be pushed and are still in ${downloadDir}; run again to retry:\n  ${failed.join('\n  ')}`);
+  }
+}
@@ -0,0 +1,163 @@
+import path from 'path';
+import { readFile } from 'fs/promises';
+import { ConfigError } from './errors.js';
+
+export const DEFAULT_CONFIG_FILE = 'gphotos.config.json';
+const DEFAULT_CDP_PORT = 9223;
+const DEFAULT_REMOTE_DIR = '/sdcard/DCIM/Camera';
+
+/** Which of the profile's logs a command works on. */
+export type LogKind = 'scan' | 'photo' | 'date' | 'inventory';
+
+/** File names used when no profile is selected (the pre-profile layout in the working directory). */
+const LEGACY_LOGS: Record<LogKind, string> = {
+  scan: 'non-free-photos.log',
+  photo: 'photolog.json',
+  date: 'datelog.json',
+  inventory: 'inventory.log',
+};
+
+/** One entry of `profiles` in gphotos.config.json. Relative paths are relative to the config file. */
+export type ProfileConfig = {
+  cdp?: string; // full DevTools endpoint, wins over cdpPort
+  cdpPort?: number;
+  userDataDir?: string; // Chrome --user-data-dir used by `gphotos chrome`, default chrome_profile_<name>
+  account?: string; // email of the Google account this profile belongs to
+  dir?: string; // state directory, default profiles/<name>
+  downloadDir?: string;
+  doneDir?: string;
+  logs?: Partial<Record<LogKind, string>>;
+  runLog?: string; // per-run totals, default runs.log
+  policy?: string; // selection policy file, relative to the config file
+  reviewLog?: string; // photos of unknown storage status, default review.log
+  catalog?: string; // photo catalog built from the logs, default catalog.json
+  merged?: string; // output of `gphotos merge`, default merged.json
+  idMap?: string; // re-uploaded photo -> trashed original, default idmap.json
+  device?: string; // adb serial of the phone `gphotos upload` pushes to, default: the only one connected
+  remoteDir?: string; // folder on the phone, default /sdcard/DCIM/Camera
+};
+
+export type Config = {
+  defaultProfile?: string;
+  chrome?: string; // Chrome executable for `gphotos chrome`
+  adb?: string; // adb executable for `gphotos upload`, default adb from PATH
+  profiles: Record<string, ProfileConfig>;
+};
+
+/** Fully resolved paths and endpoint for one account. */
+export type Profile = {
+  name: string | null; // null: no profile selected, legacy layout in the working directory
+  cdp: string;
+  userDataDir: string | null;
+  account: string | null;
+  downloadDir: string;
+  doneDir: string;
+  logs: Record<LogKind, string>;
+  runLog: string;
+  policy: string | null; // null: download and trash every non-free photo
+  reviewLog: string;
+  catalog: string;
+  merged: string;
+  idMap: string;
+  device: string | null;
+  remoteDir: string;
+};
+
+/** Read the config file; null if it does not exist. */
+export async function loadConfig(file: string): Promise<Config | null> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new ConfigError(`Cannot read ${file}: ${(error as Error).message}`);
+  }
+
+  let config: Config;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!config || typeof config.profiles !== 'object' || config.profiles === null) {
+    throw new ConfigError(`${file} must have a "profiles" object`);
+  }
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (profile.cdpPort != null && (!Number.isInteger(profile.cdpPort) || profile.cdpPort <= 0 || profile.cdpPort > 65535)) {
+      throw new ConfigError(`Profile "${name}": cdpPort must be a port number`);
+    }
+  }
+  if (config.defaultProfile && !config.profiles[config.defaultProfile]) {
+    throw new ConfigError(`${file}: defaultProfile "${config.defaultProfile}" is not defined in "profiles"`);
+  }
+  return config;
+}
+
+/** Paths for running without a profile: everything in the working directory, as before profiles existed. */
+export function legacyProfile(): Profile {
+  return {
+    name: null,
+    cdp: `http://localhost:${DEFAULT_CDP_PORT}`,
+    userDataDir: null,
+    account: null,
+    downloadDir: path.resolve('google-photos-downloads'),
+    doneDir: path.resolve('google-photos-done'),
+    logs: {
+      scan: path.resolve(LEGACY_LOGS.scan),
+      photo: path.resolve(LEGACY_LOGS.photo),
+      date: path.resolve(LEGACY_LOGS.date),
+      inventory: path.resolve(LEGACY_LOGS.inventory),
+    },
+    runLog: path.resolve('runs.log'),
+    policy: null,
+    reviewLog: path.resolve('review.log'),
+    catalog: path.resolve('catalog.json'),
+    merged: path.resolve('merged.json'),
+    idMap: path.resolve('idmap.json'),
+    device: null,
+    remoteDir: DEFAULT_REMOTE_DIR,
+  };
+}
+
+/**
+ * Resolve profile `name` (or the config's defaultProfile) to absolute paths.
+ * Every profile gets its own state directory so logs of two accounts never mix.
+ */
+export function resolveProfile(config: Config | null, configFile: string, name: string | null): Profile {
+  const profileName = name ?? config?.defaultProfile ?? null;
+  if (!profileName) return legacyProfile();
+  if (!config) throw new ConfigError(`Profile "${profileName}" requested but ${configFile} does not exist`);
+
+  const profile = config.profiles[profileName];
+  if (!profile) {
+    const known = Object.keys(config.profiles).join(', ') || 'none';
+    throw new ConfigError(`Unknown profile "${profileName}" (defined: ${known})`);
+  }
+
+  const base = path.dirname(path.resolve(configFile));
+  const dir = path.resolve(base, profile.dir ?? path.join('profiles', profileName));
+  const inDir = (value: string | undefined, fallback: string) => path.resolve(dir, value ?? fallback);
+
+  return {
+    name: profileName,
+    cdp: profile.cdp ?? `http://localhost:${profile.cdpPort ?? DEFAULT_CDP_PORT}`,
+    userDataDir: path.resolve(base, profile.userDataDir ?? `chrome_profile_${profileName}`),
+    account: profile.account ?? null,
+    downloadDir: inDir(profile.downloadDir, 'downloads'),
+    doneDir: inDir(profile.doneDir, 'done'),
+    logs: {
+      scan: inDir(profile.logs?.scan, LEGACY_LOGS.scan),
+      photo: inDir(profile.logs?.photo, LEGACY_LOGS.photo),
+      date: inDir(profile.logs?.date, LEGACY_LOGS.date),
+      inventory: inDir(profile.logs?.inventory, LEGACY_LOGS.inventory),
+    },
+    runLog: inDir(profile.runLog, 'runs.log'),
+    policy: profile.policy ? path.resolve(base, profile.policy) : null,
+    reviewLog: inDir(profile.reviewLog, 'review.log'),
+    catalog: inDir(profile.catalog, 'catalog.json'),
+    merged: inDir(profile.merged, 'merged.json'),
+    idMap: inDir(profile.idMap, 'idmap.json'),
+    device: profile.device ?? null,
+    remoteDir: profile.remoteDir ?? DEFAULT_REMOTE_DIR,
+  };
+}
@@ -0,0 +1,36 @@
+import { writeFile } from 'fs/promises';
+import { appendUpdate } from './journal.js';
+import { readEntries } from './log-header.js';
+import { toLogLine } from './log-schema.js';
+import type { PhotoMetadata } from './types.js';
+
+/** One line of datelog.json. */
+export type DateInfo = {
+  id: string | null;
+  filename: string | null;
+  metadataDate: string | null; // ISO format date from metadata
+  filenameDate: string | null; // ISO format date from filename
+  account?: string | null; // Google account the photo was seen in
+  metadata?: PhotoMetadata; // camera, location, … from the Info panel (not in older logs)
+  targetDate?: string | null; // ISO format date from trash (when dates differ > 8 hours)
+  processed?: boolean;
+};
+
+/** Append one entry (line by line, not valid JSON). */
+export async function appendDateInfo(logFile: string, dateInfo: DateInfo): Promise<void> {
+  await writeFile(logFile, toLogLine(dateInfo), { flag: 'a' });
+}
+
+/** Valid entries of the date log, with their updates; bad lines are reported and skipped. */
+export async function readDateLog(logFile: string): Promise<DateInfo[]> {
+  return readEntries<DateInfo>(logFile, 'date');
+}
+
+/**
+ * Change fields of an entry read from the date log: in memory, and as an update line
+ * appended to the log. Entries without an id can only be changed in memory.
+ */
+export async function updateDateEntry(logFile: string, entry: DateInfo, changes: Partial<DateInfo>, command: string): Promise<void> {
+  Object.assign(entry, changes);
+  if (entry.id) await appendUpdate(logFile, entry.id, changes, command);
+}
@@ -0,0 +1,38 @@
+/** Walking direction in the viewer: right = ArrowRight (towards older photos), left = ArrowLeft. */
+export type Direction = 'left' | 'right';
+
+/** Inclusive YYYY-MM-DD bounds on the day a photo was taken; null = unbounded. */
+export type DateRange = { from: string | null; to: string | null };
+
+/** Where a photo's day lies relative to the range, in walking order. */
+export type RangePosition = 'before' | 'in' | 'after';
+
+/** Local YYYY-MM-DD of an ISO date (as the viewer and the grid show it); null if missing/invalid. */
+export function localDay(iso: string | null | undefined): string | null {
+  if (!iso) return null;
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * The library is sorted newest first, so walking right the photos newer than `to`
+ * come before the range and those older than `from` after it; walking left the reverse.
+ * A photo without a date counts as in range.
+ */
+export function rangePosition(day: string | null, range: DateRange, direction: Direction): RangePosition {
+  if (!day) return 'in';
+  const newer = range.to !== null && day > range.to;
+  const older = range.from !== null && day < range.from;
+  if (direction === 'right') return newer ? 'before' : older ? 'after' : 'in';
+  return older ? 'before' : newer ? 'after' : 'in';
+}
+
+export function hasBounds(range: DateRange): boolean {
+  return range.from !== null || range.to !== null;
+}
+
+export function describeRange(range: DateRange): string {
+  return `${range.from ?? 'the oldest photo'} to ${range.to ?? 'the newest photo'}`;
+}
@@ -0,0 +1,142 @@
+import type { DateComponents } from './types.js';
+
+/** Parse the Info panel's "Date taken" / "Time taken" texts to an ISO string. */
+export function parseMetadataDate(dateText: string, timeText: string | null, timezone: string | null): string | null {
+  try {
+    const now = new Date();
+    let date: Date;
+
+    // Check if timeText indicates "Today" - if so, use current date
+    const isToday = timeText && timeText.toLowerCase().includes('today');
+
+    if (dateText.toLowerCase().includes('today') || isToday) {
+      date = new Date(now);
+    } else if (dateText.toLowerCase().includes('yesterday')) {
+      date = new Date(now);
+      date.setDate(date.getDate() - 1);
+    } else {
+      // Check if dateText contains a 4-digit year (1900-2100 range)
+      const hasYear = /\b(19|20)\d{2}\b/.test(dateText);
+
+      // If no year found, add current year ("Month Day, Year" or "Month Day Year")
+      let dateToParse = dateText;
+      if (!hasYear) {
+        dateToParse = dateText.includes(',')
+          ? `${dateText}, ${now.getFullYear()}`
+          : `${dateText} ${now.getFullYear()}`;
+      }
+
+      let parsedDate = new Date(dateToParse);
+
+      // If parsing failed, try the other separator
+      if (isNaN(parsedDate.getTime()) && !hasYear) {
+        parsedDate = dateText.includes(',')
+          ? new Date(`${dateText} ${now.getFullYear()}`)
+          : new Date(`${dateText}, ${now.getFullYear()}`);
+      }
+
+      if (isNaN(parsedDate.getTime()) || parsedDate.getFullYear() < 1900) {
+        console.log(`Failed to parse date: ${dateText}`);
+        return null;
+      }
+
+      date = parsedDate;
+    }
+
+    // Handle "Today, 1:02 PM" or "Mon, 8:38 PM"
+    if (timeText) {
+      const timeMatch = timeText.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
+      if (timeMatch) {
+        let hours = parseInt(timeMatch[1]);
+        const minutes = parseInt(timeMatch[2]);
+        const ampm = timeMatch[3].toUpperCase();
+
+        if (ampm === 'PM' && hours !== 12) {
+          hours += 12;
+        } else if (ampm === 'AM' && hours === 12) {
+          hours = 0;
+        }
+
+        date.setHours(hours, minutes, 0, 0);
+      }
+    }
+
+    return date.toISOString();
+  } catch (error) {
+    console.log(`Error parsing metadata date: ${dateText}, ${timeText}`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse a date embedded in a camera/screenshot filename to an ISO string.
+ * Supports YYYYMMDD_HHMMSSsss (PXL_20260114_100210191.jpg), YYYYMMDD_HHMMSS
+ * and YYYYMMDD-HHMMSS (Screenshot_20260114-153434.png).
+ */
+export function parseFilenameDate(filename: string): string | null {
+  const patterns = [
+    /(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})(\d{3})/,
+    /(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})/,
+    /(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})/,
+  ];
+  for (const pattern of patterns) {
+    const match = filename.match(pattern);
+    if (!match) continue;
+    const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map((n) => parseInt(n));
+    const milliseconds = match[7] ? parseInt(match[7]) : 0;
+    const date = new Date(year, month - 1, day, hours, minutes, seconds, milliseconds);
+    if (isNaN(date.getTime())) {
+      console.log(`Invalid date from filename: ${filename}`);
+      return null;
+    }
+    return date.toISOString();
+  }
+  return null;
+}
+
+/** Absolute difference in hours between two ISO dates, or null if either is missing/invalid. */
+export function getTimeDifferenceHours(date1: string | null, date2: string | null): number | null {
+  if (!date1 || !date2) return null;
+  const d1 = new Date(date1);
+  const d2 = new Date(date2);
+  if (isNaN(d1.getTime()) || isNaN(d2.getTime())) return null;
+  return Math.abs(d1.getTime() - d2.getTime()) / (1000 * 60 * 60);
+}
+
+/** Split an ISO date into the date dialog's fields, shifted to the given UTC offset. */
+export function toDateComponents(dateISO: string, utcOffsetHours = 3): DateComponents | null {
+  const date = new Date(dateISO);
+  if (isNaN(date.getTime())) return null;
+
+  const shifted = new Date(date.getTime() + utcOffsetHours * 60 * 60 * 1000);
+
+  let hour = shifted.getUTCHours();
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  if (hour === 0) {
+    hour = 12;
+  } else if (hour > 12) {
+    hour = hour - 12;
+  }
+
+  return {
+    year: shifted.getUTCFullYear().toString(),
+    month: (shifted.getUTCMonth() + 1).toString().padStart(2, '0'),
+    day: shifted.getUTCDate().toString().padStart(2, '0'),
+    hour: hour.toString().padStart(2, '0'),
+    minute: shifted.getUTCMinutes().toString().padStart(2, '0'),
+    ampm,
+  };
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * YYYY-MM-DD from the first "May 1, 2023" in a text: a grid link label
+ * ("Photo - Landscape - May 1, 2023, 3:04:05 PM") or a logged dateTaken. Null if there is none.
+ */
+export function parseShortDate(text: string): string | null {
+  const match = text.match(/\b([A-Z][a-z]{2})[a-z]*\.? (\d{1,2}), ((?:19|20)\d{2})\b/);
+  const month = match ? MONTHS.indexOf(match[1].toLowerCase()) : -1;
+  if (month < 0) return null;
+  return `${match![3]}-${String(month + 1).padStart(2, '0')}-${match![2].padStart(2, '0')}`;
+}
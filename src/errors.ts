@@ -0,0 +1,77 @@
+/**
+ * Process exit codes of the gphotos CLI (sysexits.h values where one fits),
+ * so wrappers like `npm run restart` can tell "restart me" from a real failure.
+ */
+export const ExitCode = {
+  OK: 0,
+  ERROR: 1,
+  USAGE: 64,
+  UNAVAILABLE: 69,
+  LOCKED: 73,
+  STUCK: 75,
+  ACCOUNT: 77,
+  CONFIG: 78,
+  INTERRUPTED: 130,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/** Base class for expected failures; carries the exit code the CLI should use. */
+export class GphotosError extends Error {
+  constructor(message: string, readonly exitCode: ExitCode = ExitCode.ERROR) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** Bad command line: unknown command/flag or an invalid value. */
+export class UsageError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.USAGE);
+  }
+}
+
+/** Could not attach to Chrome over CDP. */
+export class BrowserUnavailableError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.UNAVAILABLE);
+  }
+}
+
+/** adb is missing or the phone is not connected (or not authorized). */
+export class DeviceUnavailableError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.UNAVAILABLE);
+  }
+}
+
+/** Viewer navigation stopped advancing; a fresh run usually gets past it. */
+export class StuckError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.STUCK);
+  }
+}
+
+/** Another command holds the lock of the log this one would write. */
+export class LogLockedError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.LOCKED);
+  }
+}
+
+/** gphotos.config.json is unreadable or invalid, or names an unknown profile. */
+export class ConfigError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.CONFIG);
+  }
+}
+
+/** The Chrome session is signed in to a different Google account than the log/profile. */
+export class AccountMismatchError extends GphotosError {
+  constructor(message: string) {
+    super(message, ExitCode.ACCOUNT);
+  }
+}
+
+/** A downloaded file is missing, incomplete or does not match the Info panel. */
+export class DownloadVerificationError extends GphotosError {}
@@ -0,0 +1,257 @@
+import { readFile, writeFile } from 'fs/promises';
+import { localDay } from './date-range.js';
+import { parseShortDate } from './dates.js';
+import { GphotosError } from './errors.js';
+import { readEntries } from './log-header.js';
+import { parseSize } from './sizes.js';
+
+/**
+ * What the logs tell about a photo for matching: an old one (downloaded or trashed, from
+ * the photo and scan logs) or a new one (re-uploaded, from the date log and the scan log).
+ */
+export type MatchFacts = {
+  id: string;
+  filename: string;
+  fileSizeBytes: number | null;
+  dimensions: string | null;
+  days: string[]; // YYYY-MM-DD the photo was taken, by any of its dates
+  rank: NameRank | null; // place among the photos of its log with the same name key
+};
+
+/** The index-th (0 = first in the log, newest first) of the `of` photos of a log with one name key. */
+export type NameRank = { index: number; of: number };
+
+/** One old photo a new one could be, with the points it got and why; contradicted: some fact speaks against it. */
+export type MatchCandidate = { oldId: string; score: number; reasons: string[]; contradicted?: true };
+
+export type IdMatch = { newId: string; oldId: string; filename: string; score: number; reasons: string[]; manual?: true };
+
+/**
+ * idmap.json: which trashed original (old id) each re-uploaded photo (new id) is.
+ * Entries of `matched` with `"manual": true` were added or fixed by hand and survive
+ * `gphotos match`; to settle an ambiguous photo, move it to `matched` with the right oldId.
+ */
+export type IdMap = {
+  createdAt: string;
+  matched: IdMatch[];
+  ambiguous: { newId: string; filename: string; candidates: MatchCandidate[] }[];
+  unmatched: { newId: string; filename: string }[];
+};
+
+/** A match needs at least this score (or to be the only, uncontradicted candidate) and this lead over the runner-up. */
+const MIN_SCORE = 4;
+const MIN_LEAD = 2;
+
+type LogPhoto = {
+  id?: string | null;
+  filename?: string | null;
+  fileSize?: string | null;
+  fileSizeBytes?: number | null;
+  dimensions?: string | null;
+  dateTaken?: string | null;
+  metadataDate?: string | null;
+  filenameDate?: string | null;
+  downloaded?: boolean;
+  deleted?: boolean;
+};
+
+/** "IMG_0001 (1).JPG", "IMG_0001-edited.jpg" -> "img_0001.jpg": copies keep their original's key. */
+export function nameKey(filename: string): string {
+  return filename.toLowerCase().replace(/(?:-edited|-collage| ?\(\d+\))+(\.[^.]*)?$/, '$1');
+}
+
+function daysOf(photo: LogPhoto): string[] {
+  const days = [
+    localDay(photo.metadataDate),
+    localDay(photo.filenameDate),
+    photo.dateTaken ? parseShortDate(photo.dateTaken) : null,
+  ];
+  return [...new Set(days.filter((day): day is string => !!day))];
+}
+
+function factsOf(photo: LogPhoto, rank: NameRank | null): MatchFacts | null {
+  if (!photo.id || !photo.filename) return null;
+  return {
+    id: photo.id,
+    filename: photo.filename,
+    fileSizeBytes: photo.fileSizeBytes ?? parseSize(photo.fileSize),
+    dimensions: photo.dimensions ?? null,
+    days: daysOf(photo),
+    rank,
+  };
+}
+
+/** The rank of each id among the entries with its name key; the first entry of an id counts. */
+function ranksOf(entries: LogPhoto[]): Map<string, NameRank> {
+  const idsByKey = new Map<string, string[]>();
+  for (const { id, filename } of entries) {
+    if (!id || !filename) continue;
+    const ids = idsByKey.get(nameKey(filename)) ?? [];
+    if (!ids.includes(id)) idsByKey.set(nameKey(filename), [...ids, id]);
+  }
+  const ranks = new Map<string, NameRank>();
+  for (const ids of idsByKey.values()) ids.forEach((id, index) => ranks.set(id, { index, of: ids.length }));
+  return ranks;
+}
+
+/**
+ * Facts of the entries of one log, the first entry of an id wins; null fields are filled
+ * from later ones. Ranks are taken within these entries; an id already known keeps its own.
+ */
+function collect(entries: LogPhoto[], into: Map<string, MatchFacts>): void {
+  const ranks = ranksOf(entries);
+  for (const entry of entries) {
+    const facts = factsOf(entry, entry.id ? ranks.get(entry.id) ?? null : null);
+    if (!facts) continue;
+    const known = into.get(facts.id);
+    if (!known) {
+      into.set(facts.id, facts);
+      continue;
+    }
+    known.fileSizeBytes ??= facts.fileSizeBytes;
+    known.dimensions ??= facts.dimensions;
+    known.days = [...new Set([...known.days, ...facts.days])];
+  }
+}
+
+/**
+ * Old photos: entries of the photo log and the scan log that were downloaded or trashed.
+ * New photos: entries of the date log, with size and dimensions from the scan log if it
+ * has them (a scan of the library after the re-upload).
+ */
+export async function readMatchFacts(logs: { photo: string; scan: string; date: string }): Promise<{ olds: MatchFacts[]; news: MatchFacts[] }> {
+  const photoLog = await readEntries<LogPhoto>(logs.photo, 'photo');
+  const scanLog = await readEntries<LogPhoto>(logs.scan, 'photo');
+  const dateLog = await readEntries<LogPhoto>(logs.date, 'date');
+
+  const olds = new Map<string, MatchFacts>();
+  collect(photoLog.filter((e) => e.downloaded || e.deleted), olds);
+  collect(scanLog.filter((e) => e.downloaded || e.deleted), olds);
+
+  const news = new Map<string, MatchFacts>();
+  collect(dateLog.filter((e) => !olds.has(e.id ?? '')), news);
+  const scanned = new Map<string, MatchFacts>();
+  collect(scanLog, scanned);
+  for (const facts of news.values()) {
+    const scan = scanned.get(facts.id);
+    facts.fileSizeBytes ??= scan?.fileSizeBytes ?? null;
+    facts.dimensions ??= scan?.dimensions ?? null;
+  }
+  return { olds: [...olds.values()], news: [...news.values()].filter((n) => !olds.has(n.id)) };
+}
+
+/**
+ * Points for "new photo `n` is a re-upload of old photo `o`". The filename (or the name
+ * of the copy's original) must be the same; a different size or dimensions count against,
+ * a fact one of them lacks counts neither way. Order: the logs walk the library newest
+ * first, so when a name has as many photos in the date log as in the old photo's log, the
+ * k-th re-upload of that name is likely the k-th original.
+ */
+export function scoreMatch(n: MatchFacts, o: MatchFacts): MatchCandidate | null {
+  if (nameKey(n.filename) !== nameKey(o.filename)) return null;
+  const reasons: string[] = [];
+  let score = 0;
+  let contradicted = false;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+    if (points < 0) contradicted = true;
+  };
+
+  if (n.filename === o.filename) add(2, 'same filename');
+  else add(1, 'same filename apart from case or copy suffix');
+  if (n.fileSizeBytes != null && o.fileSizeBytes != null) {
+    if (n.fileSizeBytes === o.fileSizeBytes) add(4, 'same size');
+    else if (Math.abs(n.fileSizeBytes - o.fileSizeBytes) <= 0.01 * o.fileSizeBytes) add(2, 'size within 1%');
+    else add(-4, 'different size');
+  }
+  if (n.dimensions && o.dimensions) {
+    if (n.dimensions === o.dimensions) add(2, 'same dimensions');
+    else add(-3, 'different dimensions');
+  }
+  if (n.days.length && o.days.length) {
+    if (n.days.some((day) => o.days.includes(day))) add(2, 'same day taken');
+    else add(-1, 'different day taken');
+  }
+  if (n.rank && o.rank && n.rank.of > 1 && n.rank.of === o.rank.of && n.rank.index === o.rank.index) {
+    add(2, `same place among the ${n.rank.of} photos of this name`);
+  }
+  return { oldId: o.id, score, reasons, ...contradicted ? { contradicted: true as const } : {} };
+}
+
+/**
+ * Match every new photo to at most one old photo. A new photo is matched when its best
+ * candidate scores at least MIN_SCORE and MIN_LEAD more than the next one, or is its only
+ * candidate and nothing contradicts it (old logs often lack dates, dimensions or sizes),
+ * and no other new photo claims the same old photo with a score as good; otherwise it is
+ * ambiguous (left for review). It is unmatched when no old photo has its filename.
+ * Manual matches of `previous` are kept as they are.
+ */
+export function matchPhotos(olds: MatchFacts[], news: MatchFacts[], previous: IdMap | null): IdMap {
+  const manual = (previous?.matched ?? []).filter((m) => m.manual);
+  const manualNew = new Set(manual.map((m) => m.newId));
+  const manualOld = new Set(manual.map((m) => m.oldId));
+
+  const byKey = new Map<string, MatchFacts[]>();
+  for (const o of olds) {
+    if (manualOld.has(o.id)) continue;
+    byKey.set(nameKey(o.filename), [...byKey.get(nameKey(o.filename)) ?? [], o]);
+  }
+
+  const idMap: IdMap = { createdAt: new Date().toISOString(), matched: [...manual], ambiguous: [], unmatched: [] };
+  const best = new Map<string, { n: MatchFacts; candidates: MatchCandidate[] }>(); // new id -> sorted candidates
+  for (const n of news) {
+    if (manualNew.has(n.id)) continue;
+    const candidates = (byKey.get(nameKey(n.filename)) ?? [])
+      .map((o) => scoreMatch(n, o))
+      .filter((c): c is MatchCandidate => c !== null)
+      .sort((a, b) => b.score - a.score);
+    if (!candidates.length) {
+      idMap.unmatched.push({ newId: n.id, filename: n.filename });
+      continue;
+    }
+    best.set(n.id, { n, candidates });
+  }
+
+  const claims = new Map<string, number[]>(); // old id -> top scores of the new photos picking it
+  for (const { candidates } of best.values()) {
+    claims.set(candidates[0].oldId, [...claims.get(candidates[0].oldId) ?? [], candidates[0].score]);
+  }
+  for (const { n, candidates } of best.values()) {
+    const [top, next] = candidates;
+    const rivals = claims.get(top.oldId)!.filter((score) => score >= top.score).length > 1;
+    const sole = !next && !top.contradicted;
+    if ((top.score < MIN_SCORE && !sole) || (next && top.score - next.score < MIN_LEAD) || rivals) {
+      idMap.ambiguous.push({ newId: n.id, filename: n.filename, candidates });
+    } else {
+      idMap.matched.push({ newId: n.id, oldId: top.oldId, filename: n.filename, score: top.score, reasons: top.reasons });
+    }
+  }
+  return idMap;
+}
+
+/** The id map in `file`, or null if there is none. */
+export async function readIdMap(file: string): Promise<IdMap | null> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+  try {
+    return JSON.parse(content) as IdMap;
+  } catch (error) {
+    throw new GphotosError(`${file} is not valid JSON (edited by hand?): ${(error as Error).message}`);
+  }
+}
+
+/** Match the photos of the logs again, keeping the manual matches of `file`, and write the result to it. */
+export async function updateIdMap(file: string, logs: { photo: string; scan: string; date: string }): Promise<IdMap> {
+  const previous = await readIdMap(file);
+  const { olds, news } = await readMatchFacts(logs);
+  const idMap = matchPhotos(olds, news, previous);
+  await writeFile(file, JSON.stringify(idMap, null, 2) + '\n', 'utf8');
+  console.log(`${file}: ${idMap.matched.length} matched, ${idMap.ambiguous.length} ambiguous, ${idMap.unmatched.length} unmatched ` +
+    `(${news.length} re-uploaded photos, ${olds.length} originals)`);
+  return idMap;
+}
@@ -0,0 +1,37 @@
+import { DateRange, Direction, rangePosition } from './date-range.js';
+import { UsageError } from './errors.js';
+import { readScopedEntries } from './log-header.js';
+import { describeScope, sameScope, Scope } from './scope.js';
+
+/** One line of inventory.log: a photo link of the grid, in grid order (newest first). */
+export type InventoryItem = {
+  position: number; // 0 = first in the grid
+  id: string;
+  label: string; // the link's aria-label, "Photo - Landscape - May 1, 2023, 3:04:05 PM"
+  day: string | null; // YYYY-MM-DD from the label
+};
+
+/** Items of an inventory and the scope of the collection it was taken of (null: empty file). */
+export async function readInventory(file: string): Promise<{ scope: Scope | null; items: InventoryItem[] }> {
+  const entries = await readScopedEntries<InventoryItem>(file, 'inventory');
+  return {
+    scope: entries.length ? entries[entries.length - 1].scope : null,
+    items: entries.map((e) => e.entry).sort((a, b) => a.position - b.position),
+  };
+}
+
+/**
+ * The inventory items of `scope` a --inventory run still has to open: not in `done`,
+ * taken in `range` (items without a day are kept), in walking order.
+ */
+export async function inventoryToVisit(
+  file: string, scope: Scope, done: Set<string>, range: DateRange, direction: Direction,
+): Promise<InventoryItem[]> {
+  const inventory = await readInventory(file);
+  if (!inventory.scope) throw new UsageError(`${file} has no inventory; run \`gphotos inventory scan\` first`);
+  if (!sameScope(inventory.scope, scope)) {
+    throw new UsageError(`${file} is an inventory of ${describeScope(inventory.scope)}, not of ${describeScope(scope)}`);
+  }
+  const items = inventory.items.filter((i) => !done.has(i.id) && rangePosition(i.day, range, direction) === 'in');
+  return direction === 'left' ? items.reverse() : items;
+}
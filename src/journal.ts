@@ -0,0 +1,47 @@
+import { writeFile } from 'fs/promises';
+
+/**
+ * A status change appended to a log instead of rewriting it: `set` (and `unset`) apply
+ * to every entry of photo `id` above the line. Readers fold updates into the entries;
+ * `gphotos compact` writes the folded log back.
+ */
+export type LogUpdate = {
+  update: true;
+  id: string;
+  set: Record<string, unknown>;
+  unset?: string[];
+  command: string;
+  at: string;
+};
+
+export function isLogUpdate(line: unknown): line is LogUpdate {
+  return typeof line === 'object' && line !== null && (line as LogUpdate).update === true;
+}
+
+/** Why an update line cannot be applied as such, or null. */
+export function updateProblem(update: LogUpdate): string | null {
+  if (typeof update.id !== 'string' || !update.id) return 'update without an id';
+  if (typeof update.set !== 'object' || update.set === null || Array.isArray(update.set)) return 'update without a set object';
+  if (update.unset != null && !(Array.isArray(update.unset) && update.unset.every((f) => typeof f === 'string'))) {
+    return 'unset must be a list of field names';
+  }
+  return null;
+}
+
+/** The entry with the update's fields set and unset; the entry itself is not changed. */
+export function applyUpdate<T extends object>(entry: T, update: LogUpdate): T {
+  const updated: Record<string, unknown> = { ...entry, ...update.set };
+  for (const field of update.unset ?? []) delete updated[field];
+  return updated as T;
+}
+
+/**
+ * Append a status change for photo `id` (one line; a crash cannot truncate the log).
+ * Fields of `changes` that are undefined are unset.
+ */
+export async function appendUpdate(logFile: string, id: string, changes: Record<string, unknown>, command: string): Promise<void> {
+  const set = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+  const unset = Object.keys(changes).filter((field) => changes[field] === undefined);
+  const update: LogUpdate = { update: true, id, set, ...unset.length ? { unset } : {}, command, at: new Date().toISOString() };
+  await writeFile(logFile, JSON.stringify(update) + '\n', { flag: 'a' });
+}
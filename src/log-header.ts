@@ -0,0 +1,160 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import { applyUpdate, isLogUpdate, LogUpdate, updateProblem } from './journal.js';
+import { EntryKind, LogProblem, parseEntry, reportProblems, toLogLine, validateEntry } from './log-schema.js';
+import { LIBRARY, Scope } from './scope.js';
+
+/**
+ * First line a walking command appends to its log on every run: which collection
+ * the entries below it come from. Readers of photo entries skip these lines.
+ */
+export type LogHeader = {
+  header: true;
+  command: string;
+  scope: Scope;
+  account: string | null;
+  runId: string;
+  startedAt: string;
+};
+
+export function isLogHeader(line: unknown): line is LogHeader {
+  return typeof line === 'object' && line !== null && (line as LogHeader).header === true;
+}
+
+export async function appendLogHeader(logFile: string, header: Omit<LogHeader, 'header' | 'startedAt'>): Promise<void> {
+  const line: LogHeader = { header: true, ...header, startedAt: new Date().toISOString() };
+  await writeFile(logFile, JSON.stringify(line) + '\n', { flag: 'a' });
+}
+
+/**
+ * The lines of a log: entries (upgraded to the current schema, updates folded in) with
+ * their scope, headers, bad lines and how many update lines were folded.
+ */
+export type ParsedLog<T> = {
+  entries: { entry: T; scope: Scope; line: number }[];
+  headers: { header: LogHeader; line: number }[];
+  problems: LogProblem[];
+  updates: number;
+};
+
+/**
+ * Parse a log's lines; entries written before headers existed belong to the library.
+ * Lines that are not JSON or not a valid `kind` entry end up in `problems`. A missing file is empty.
+ */
+export async function parseLog<T>(logFile: string, kind: EntryKind): Promise<ParsedLog<T>> {
+  const log: ParsedLog<T> = { entries: [], headers: [], problems: [], updates: 0 };
+  const byId = new Map<string, number[]>(); // photo id -> indexes into log.entries
+  let content: string;
+  try {
+    content = await readFile(logFile, 'utf8');
+  } catch {
+    return log;
+  }
+  let scope = LIBRARY;
+  content.split('\n').forEach((text, i) => {
+    if (!text.trim()) return;
+    const line = i + 1;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      log.problems.push({ line, text, error: `not JSON: ${(error as Error).message}` });
+      return;
+    }
+    if (isLogHeader(parsed)) {
+      scope = parsed.scope;
+      log.headers.push({ header: parsed, line });
+      return;
+    }
+    if (isLogUpdate(parsed)) {
+      const error = foldUpdate(log, byId, kind, parsed);
+      if (error) log.problems.push({ line, text, error });
+      else log.updates++;
+      return;
+    }
+    const result = parseEntry<T>(kind, parsed);
+    if ('error' in result) {
+      log.problems.push({ line, text, error: result.error });
+      return;
+    }
+    const id = (result.entry as { id?: unknown }).id;
+    if (typeof id === 'string') byId.set(id, [...byId.get(id) ?? [], log.entries.length]);
+    log.entries.push({ entry: result.entry, scope, line });
+  });
+  return log;
+}
+
+/**
+ * The changes of an update line as folded into a photo entry: one that trashed the photo
+ * before delete and clean recorded deletedAt gets its `at` as deletedAt, so the trash time
+ * survives compact and migrate, which drop the update lines.
+ */
+function foldedChanges(kind: EntryKind, update: LogUpdate): LogUpdate {
+  if (kind !== 'photo' || update.set.deleted !== true || 'deletedAt' in update.set || typeof update.at !== 'string') return update;
+  return { ...update, set: { ...update.set, deletedAt: update.at } };
+}
+
+/** Apply an update line to the entries of its id read so far; the reason if it cannot be applied. */
+function foldUpdate<T>(log: ParsedLog<T>, byId: Map<string, number[]>, kind: EntryKind, update: LogUpdate): string | null {
+  const problem = updateProblem(update);
+  if (problem) return problem;
+  const indexes = byId.get(update.id);
+  if (!indexes) return `update for ${update.id}, which no entry above has`;
+  const changes = foldedChanges(kind, update);
+  const updated = indexes.map((i) => applyUpdate(log.entries[i].entry as object, changes));
+  const invalid = updated.map((entry) => validateEntry(kind, entry)).find((problems) => problems.length);
+  if (invalid) return `update makes the entry invalid: ${invalid.join('; ')}`;
+  indexes.forEach((i, n) => (log.entries[i].entry = updated[n] as T));
+  return null;
+}
+
+/**
+ * Entries of a log, each with the scope of the header above it.
+ * Bad lines are skipped and reported on stderr.
+ */
+export async function readScopedEntries<T>(logFile: string, kind: EntryKind): Promise<{ entry: T; scope: Scope }[]> {
+  const { entries, problems } = await parseLog<T>(logFile, kind);
+  reportProblems(logFile, problems);
+  return entries.map(({ entry, scope }) => ({ entry, scope }));
+}
+
+/** Entries of a log without their scopes; bad lines are skipped and reported. */
+export async function readEntries<T>(logFile: string, kind: EntryKind): Promise<T[]> {
+  return (await readScopedEntries<T>(logFile, kind)).map((e) => e.entry);
+}
+
+/**
+ * The text of a parsed log with the updates folded in: headers and entries (in the
+ * current schema) in file order, bad lines kept in place or dropped.
+ */
+export function renderLog<T extends object>(log: ParsedLog<T>, badLines: 'keep' | 'drop'): string {
+  const lines: [number, string][] = [
+    ...log.headers.map(({ header, line }): [number, string] => [line, JSON.stringify(header) + '\n']),
+    ...log.entries.map(({ entry, line }): [number, string] => [line, toLogLine(entry)]),
+    ...badLines === 'keep' ? log.problems.map(({ text, line }): [number, string] => [line, text + '\n']) : [],
+  ];
+  return lines.sort(([a], [b]) => a - b).map(([, text]) => text).join('');
+}
+
+/** Replace a log's content: write <log>.tmp, then rename it over the log. */
+export async function replaceLog(logFile: string, content: string): Promise<void> {
+  const tmp = `${logFile}.tmp`;
+  await writeFile(tmp, content, 'utf8');
+  await rename(tmp, logFile);
+}
+
+/** Kind of a log from its first entry line (for a log given with --log); null if it has none. */
+export async function detectKind(logFile: string): Promise<EntryKind | null> {
+  for (const line of (await readFile(logFile, 'utf8')).split('\n')) {
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (typeof parsed !== 'object' || parsed === null || isLogHeader(parsed)) continue;
+    if ('position' in parsed && 'label' in parsed) return 'inventory';
+    if ('free' in parsed) return 'photo';
+    if ('filenameDate' in parsed) return 'date';
+  }
+  return null;
+}
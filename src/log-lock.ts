@@ -0,0 +1,65 @@
+import { hostname } from 'os';
+import { open, readFile, rm } from 'fs/promises';
+import { LogLockedError } from './errors.js';
+
+/** Content of <log>.lock: who is writing the log. */
+export type LockInfo = { pid: number; host: string; command: string; startedAt: string };
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function readLock(lockFile: string): Promise<LockInfo | null> {
+  try {
+    return JSON.parse(await readFile(lockFile, 'utf8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create <log>.lock for `command`, or throw LogLockedError if another process holds it.
+ * A lock left by a process of this machine that no longer runs (crash, kill -9) is taken over.
+ * Resolves to the function that releases the lock.
+ */
+export async function lockLog(logFile: string, command: string): Promise<() => Promise<void>> {
+  const lockFile = `${logFile}.lock`;
+  const info: LockInfo = { pid: process.pid, host: hostname(), command, startedAt: new Date().toISOString() };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const handle = await open(lockFile, 'wx');
+      await handle.writeFile(JSON.stringify(info) + '\n');
+      await handle.close();
+      return () => rm(lockFile, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    const holder = await readLock(lockFile);
+    if (!holder) {
+      throw new LogLockedError(`${logFile} is locked (${lockFile} is being written or unreadable); if no gphotos command runs, remove it`);
+    }
+    if (holder.host !== info.host || isRunning(holder.pid)) {
+      throw new LogLockedError(
+        `${logFile} is in use by "gphotos ${holder.command}" (pid ${holder.pid} on ${holder.host}, since ${holder.startedAt}); ` +
+        `if that is not running any more, remove ${lockFile}`);
+    }
+    console.log(`⚠ Taking over the stale lock ${lockFile} of "gphotos ${holder.command}" (pid ${holder.pid})`);
+    await rm(lockFile, { force: true });
+  }
+  throw new LogLockedError(`Could not lock ${logFile}: ${lockFile} keeps coming back`);
+}
+
+/** Run `fn` while holding the lock of `logFile`. */
+export async function withLogLock<T>(logFile: string, command: string, fn: () => Promise<T>): Promise<T> {
+  const release = await lockLog(logFile, command);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
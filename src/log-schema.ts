@@ -0,0 +1,159 @@
+import { parseSize } from './sizes.js';
+import { classifyStorage, storageOf } from './storage.js';
+
+/**
+ * Version of the entry lines the commands write, stored in each line as `schema`.
+ * 1: lines without `schema`, as written by index.ts, scan-and-download.ts and fixdates.ts
+ *    and by the CLI before versioning (photo entries may lack storage and fileSizeBytes).
+ * 2: every photo entry has storage, storageReason and fileSizeBytes.
+ */
+export const SCHEMA_VERSION = 2;
+
+/** Shape of a log's entries: scan log and photo log share `photo`. */
+export type EntryKind = 'photo' | 'date' | 'inventory';
+
+type FieldType = 'string' | 'string?' | 'number' | 'number?' | 'boolean' | 'object' | 'storage';
+
+/** Field -> type; fields with `!` after the name are required. Other fields are not checked. */
+const FIELDS: Record<EntryKind, Record<string, FieldType>> = {
+  photo: {
+    'id!': 'string?',
+    'filename!': 'string?',
+    'free!': 'boolean',
+    notTakingSpace: 'boolean',
+    storage: 'storage',
+    storageReason: 'string',
+    fileSize: 'string?',
+    fileSizeBytes: 'number?',
+    dateTaken: 'string?',
+    dimensions: 'string?',
+    metadataDate: 'string?',
+    filenameDate: 'string?',
+    metadata: 'object',
+    account: 'string?',
+    downloaded: 'boolean',
+    deleted: 'boolean',
+    recoverableBytes: 'number?',
+    deletedAt: 'string',
+    restoredAt: 'string',
+    pushed: 'boolean',
+    pushedAt: 'string',
+  },
+  date: {
+    'id!': 'string?',
+    'filename!': 'string?',
+    'metadataDate!': 'string?',
+    'filenameDate!': 'string?',
+    targetDate: 'string?',
+    processed: 'boolean',
+    account: 'string?',
+    metadata: 'object',
+  },
+  inventory: {
+    'position!': 'number',
+    'id!': 'string',
+    'label!': 'string',
+    'day!': 'string?',
+  },
+};
+
+const TYPE_NAMES: Record<FieldType, string> = {
+  'string': 'a string',
+  'string?': 'a string or null',
+  'number': 'a number',
+  'number?': 'a number or null',
+  'boolean': 'true or false',
+  'object': 'an object',
+  'storage': 'free, counts or unknown',
+};
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'string?': return value === null || typeof value === 'string';
+    case 'number': return typeof value === 'number' && !isNaN(value);
+    case 'number?': return value === null || (typeof value === 'number' && !isNaN(value));
+    case 'boolean': return typeof value === 'boolean';
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'storage': return value === 'free' || value === 'counts' || value === 'unknown';
+  }
+}
+
+/** Problems of an entry against the current schema of `kind`; empty if it is valid. */
+export function validateEntry(kind: EntryKind, value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return ['not a JSON object'];
+  const entry = value as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const [key, type] of Object.entries(FIELDS[kind])) {
+    const required = key.endsWith('!');
+    const field = required ? key.slice(0, -1) : key;
+    if (!(field in entry)) {
+      if (required) problems.push(`${field} is missing`);
+    } else if (!hasType(entry[field], type)) {
+      problems.push(`${field} must be ${TYPE_NAMES[type]}, got ${JSON.stringify(entry[field])}`);
+    }
+  }
+  return problems;
+}
+
+/** Schema version of an entry line; lines without `schema` are version 1. */
+export function schemaOf(entry: object): number {
+  const schema = (entry as { schema?: unknown }).schema;
+  return typeof schema === 'number' ? schema : 1;
+}
+
+/**
+ * Bring a version 1 entry to the current schema. Photo entries get storage (classified
+ * from notTakingSpace and fileSize where the line has notTakingSpace, so contradictory or
+ * missing signals stay unknown and go to review; from `free` only without it) and
+ * fileSizeBytes; every other field, deleted, targetDate and processed included, is kept.
+ */
+export function upgradeEntry(kind: EntryKind, entry: Record<string, unknown>): Record<string, unknown> {
+  if (schemaOf(entry) >= SCHEMA_VERSION) return entry;
+  const upgraded: Record<string, unknown> = { schema: SCHEMA_VERSION, ...entry };
+  if (kind === 'photo') {
+    const fileSize = typeof entry.fileSize === 'string' ? entry.fileSize : null;
+    if (upgraded.storage == null) {
+      const { storage, storageReason } = typeof entry.notTakingSpace === 'boolean'
+        ? classifyStorage({ sizeText: fileSize, fileSize: parseSize(fileSize) != null ? fileSize : null, notTakingSpace: entry.notTakingSpace })
+        : { storage: storageOf(entry as { free?: boolean }), storageReason: 'from free in a version 1 line' };
+      upgraded.storage = storage;
+      upgraded.storageReason = storageReason;
+    }
+    if (upgraded.fileSizeBytes === undefined) upgraded.fileSizeBytes = parseSize(fileSize);
+  }
+  return upgraded;
+}
+
+/**
+ * Parse one entry line: upgraded to the current schema and validated.
+ * Lines of a newer schema than this version knows are rejected rather than misread.
+ */
+export function parseEntry<T>(kind: EntryKind, value: unknown): { entry: T } | { error: string } {
+  if (typeof value === 'object' && value !== null && schemaOf(value) > SCHEMA_VERSION) {
+    return { error: `schema ${schemaOf(value)} is newer than this version of gphotos (${SCHEMA_VERSION})` };
+  }
+  const problems = validateEntry(kind, value);
+  if (problems.length) return { error: problems.join('; ') };
+  return { entry: upgradeEntry(kind, value as Record<string, unknown>) as T };
+}
+
+/** JSON line for an entry, stamped with the current schema version. */
+export function toLogLine(entry: object): string {
+  const { schema: _, ...fields } = entry as { schema?: number };
+  return JSON.stringify({ schema: SCHEMA_VERSION, ...fields }) + '\n';
+}
+
+/** A line of a log that is not a valid entry, 1-based line number. */
+export type LogProblem = { line: number; text: string; error: string };
+
+/** Print the bad lines of a log: how many and, for the first `limit`, which and why. */
+export function reportProblems(logFile: string, problems: LogProblem[], limit = 10): void {
+  if (!problems.length) return;
+  console.error(`⚠ ${logFile}: ${problems.length} bad ${problems.length === 1 ? 'line' : 'lines'} skipped`);
+  for (const { line, text, error } of problems.slice(0, limit)) {
+    console.error(`  line ${line}: ${error}`);
+    console.error(`    ${text.length > 120 ? text.slice(0, 117) + '…' : text}`);
+  }
+  if (problems.length > limit) console.error(`  … and ${problems.length - limit} more (gphotos migrate lists all of them)`);
+}
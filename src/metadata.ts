@@ -0,0 +1,80 @@
+import type { PhotoMetadata } from './types.js';
+
+/** Makes the camera line may start with; the rest of the line is the model. */
+const CAMERA_MAKES = [
+  'Apple', 'Canon', 'DJI', 'Fujifilm', 'FUJIFILM', 'GoPro', 'Google', 'HMD Global', 'HTC', 'Huawei', 'HUAWEI',
+  'Leica', 'LG', 'LGE', 'Motorola', 'Nikon', 'NIKON', 'Nokia', 'Olympus', 'OLYMPUS', 'OnePlus', 'OPPO', 'Panasonic',
+  'Pentax', 'PENTAX', 'Ricoh', 'RICOH', 'Samsung', 'samsung', 'Sony', 'SONY', 'vivo', 'Xiaomi',
+];
+
+/** Exposure line under the camera: "ƒ/1.85  1/120  6.81mm  ISO45" (any subset, any order). */
+const EXPOSURE = /(?:ƒ|f)\/\s*\d|\bISO\s*\d|\d\s*mm\b/i;
+
+export const NO_METADATA: PhotoMetadata = {
+  cameraMake: null,
+  cameraModel: null,
+  aperture: null,
+  exposureTime: null,
+  iso: null,
+  focalLength: null,
+  megapixels: null,
+  location: null,
+  description: null,
+  people: [],
+  albums: [],
+  uploadedBy: null,
+};
+
+function number(text: string | undefined): number | null {
+  if (text == null) return null;
+  const value = parseFloat(text);
+  return isNaN(value) ? null : value;
+}
+
+/** "Google Pixel 7" -> make Google, model Pixel 7; an unknown make leaves the whole line as the model. */
+export function splitCamera(line: string): { cameraMake: string | null; cameraModel: string | null } {
+  const text = line.replace(/\s+/g, ' ').trim();
+  if (!text) return { cameraMake: null, cameraModel: null };
+  const make = CAMERA_MAKES.find((m) => text === m || text.startsWith(`${m} `));
+  if (!make) return { cameraMake: null, cameraModel: text };
+  return { cameraMake: make, cameraModel: text.slice(make.length).trim() || null };
+}
+
+/**
+ * The camera and exposure fields from the lines of the Info panel's text. The camera is
+ * the line above the exposure line; megapixels come from the "12.5MP  4080 × 3072" line.
+ */
+export function parsePanelLines(lines: string[]): Pick<PhotoMetadata,
+  'cameraMake' | 'cameraModel' | 'aperture' | 'exposureTime' | 'iso' | 'focalLength' | 'megapixels' | 'uploadedBy'> {
+  const trimmed = lines.map((l) => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const exposureIndex = trimmed.findIndex((l) => EXPOSURE.test(l));
+  const exposure = exposureIndex >= 0 ? trimmed[exposureIndex] : '';
+  const cameraLine = exposureIndex > 0 ? trimmed[exposureIndex - 1] : '';
+  const camera = cameraLine && !/\d+\s*MP\b|Filename|:/i.test(cameraLine) ? splitCamera(cameraLine) : splitCamera('');
+  const megapixels = trimmed.map((l) => l.match(/(\d+(?:\.\d+)?)\s*MP\b/)?.[1]).find(Boolean);
+  const uploadedBy = trimmed.map((l) => l.match(/^(?:Uploaded|Added|Shared) by\s+(.+)$/i)?.[1]).find(Boolean);
+  return {
+    ...camera,
+    aperture: number(exposure.match(/(?:ƒ|f)\/\s*(\d+(?:\.\d+)?)/i)?.[1]),
+    exposureTime: exposure.match(/\b(1\/\d+|\d+(?:\.\d+)?\s*s)\b/)?.[1] ?? null,
+    iso: number(exposure.match(/\bISO\s*(\d+)/i)?.[1]),
+    focalLength: number(exposure.match(/(\d+(?:\.\d+)?)\s*mm\b/i)?.[1]),
+    megapixels: number(megapixels),
+    uploadedBy: uploadedBy ?? null,
+  };
+}
+
+/** "4080 × 3072" from the panel lines, for when no element carries the dimensions. */
+export function findDimensions(lines: string[]): string | null {
+  for (const line of lines) {
+    const match = line.match(/(\d+)\s*×\s*(\d+)/);
+    if (match) return `${match[1]} × ${match[2]}`;
+  }
+  return null;
+}
+
+/** "Google Pixel 7" for reports and policy rules; null if the panel showed no camera. */
+export function cameraOf(metadata: Partial<PhotoMetadata> | null | undefined): string | null {
+  const camera = [metadata?.cameraMake, metadata?.cameraModel].filter(Boolean).join(' ');
+  return camera || null;
+}
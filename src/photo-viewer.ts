@@ -0,0 +1,549 @@
+import { access } from 'fs/promises';
+import path from 'path';
+import { Locator, Page } from 'playwright';
+import { expect } from '@playwright/test';
+import { DateRange, Direction, hasBounds } from './date-range.js';
+import { parseFilenameDate, parseMetadataDate, parseShortDate, toDateComponents } from './dates.js';
+import { findDimensions, NO_METADATA, parsePanelLines } from './metadata.js';
+import { parseSize } from './sizes.js';
+import { LIBRARY, photoUrl, PHOTOS_URL, Scope, scopeUrl } from './scope.js';
+import { classifyStorage } from './storage.js';
+import type { DateComponents, PhotoInfo, PhotoMetadata } from './types.js';
+
+const ARROW: Record<Direction, string> = { right: 'ArrowRight', left: 'ArrowLeft' };
+const MAX_GRID_SCROLLS = 5000;
+
+/** True if we consider prev and current to be the same photo (navigation did not change). */
+export function samePhoto(prev: PhotoInfo, curr: PhotoInfo): boolean {
+  if (prev.id != null && curr.id != null && prev.id === curr.id) return true;
+  const fp = (a: PhotoInfo) =>
+    [a.filename ?? '', a.fileSize ?? '', a.dateTaken ?? '', a.dimensions ?? ''].join('|');
+  return fp(prev) === fp(curr);
+}
+
+/** `dir`/`name`, or `dir`/"name (n).ext" with the first n that is taken in none of `dir` and `otherDirs`. */
+async function freePath(dir: string, name: string, otherDirs: string[]): Promise<string> {
+  const { name: stem, ext } = path.parse(name);
+  for (let n = 0; ; n++) {
+    const candidate = n ? `${stem} (${n})${ext}` : name;
+    const taken = await Promise.all([dir, ...otherDirs].map((d) => access(path.join(d, candidate)).then(() => true, () => false)));
+    if (!taken.includes(true)) return path.join(dir, candidate);
+  }
+}
+
+/** A photo link of the grid: the id from its /photo/<id> href and its aria-label ("Photo - … - May 1, 2023, …"). */
+export type GridItem = { id: string; label: string };
+
+/**
+ * Drives the Google Photos single-photo viewer of an attached page.
+ * Constructing one has no side effects; every method acts on the page it wraps.
+ * With an album or search `scope`, photos are opened inside that collection so the
+ * arrow keys never leave it.
+ */
+export class PhotoViewer {
+  constructor(readonly page: Page, readonly scope: Scope = LIBRARY) {}
+
+  /** The Info side panel, found by its heading. */
+  get infoPanel(): Locator {
+    const infoHeading = this.page.getByRole('heading', { name: 'Info' });
+    return this.page.locator('div.YW656b').filter({ has: infoHeading });
+  }
+
+  /** The grid's photo links: the main library grid, or any photo link on an album / search page. */
+  private get gridItems(): Locator {
+    if (this.scope.kind === 'library') {
+      return this.page.locator('div[jsname="ni8Knc"]').getByRole('link', { name: /^(Photo|Video) -/ });
+    }
+    return this.page.locator('a[href*="/photo/"]');
+  }
+
+  /** Open the library, or the album / search result the viewer is scoped to. */
+  async openLibrary(): Promise<void> {
+    await this.page.goto(scopeUrl(this.scope));
+  }
+
+  async openPhoto(id: string): Promise<void> {
+    await this.page.goto(photoUrl(this.scope, id), { waitUntil: 'domcontentloaded' });
+    await this.page.waitForTimeout(1000);
+  }
+
+  /** Open an item that has been moved to trash (kept there for 60 days). */
+  async openTrashedPhoto(id: string): Promise<void> {
+    await this.page.goto(`${PHOTOS_URL}/trash/${id}`, { waitUntil: 'domcontentloaded' });
+    await this.page.waitForTimeout(1000);
+  }
+
+  /** Open the first photo of the grid (the library's, or the album's / search result's). */
+  async openFirstInGrid(): Promise<void> {
+    const first = this.gridItems.first();
+    await first.waitFor({ state: 'visible' });
+    await expect(first).toBeVisible();
+    await first.click();
+  }
+
+  /** Open where a walk without a checkpoint starts: the newest photo, or the first one in range. */
+  async openWalkStart(range: DateRange, direction: Direction): Promise<boolean> {
+    if (direction === 'right' && !hasBounds(range)) {
+      await this.openFirstInGrid();
+      return true;
+    }
+    return this.openFirstInRange(range, direction);
+  }
+
+  /**
+   * Scroll the grid (newest first) to where a walk over `range` in `direction`
+   * starts and open that photo: walking right the newest photo not after range.to,
+   * walking left the oldest one not before range.from. False if no photo is in range.
+   */
+  async openFirstInRange(range: DateRange, direction: Direction): Promise<boolean> {
+    const links = this.gridItems;
+    await links.first().waitFor({ state: 'visible' });
+    const open = async (label: string) => {
+      const link = this.page.getByRole('link', { name: label, exact: true }).first();
+      await link.scrollIntoViewIfNeeded();
+      await link.click();
+      return true;
+    };
+
+    let candidate: string | null = null; // walking left: oldest in-range photo seen so far
+    let lastLabel: string | null = null;
+    for (let scroll = 0; scroll < MAX_GRID_SCROLLS; scroll++) {
+      const labels = await links.evaluateAll((els) => els.map((el) => el.getAttribute('aria-label') ?? ''));
+      for (const label of labels) {
+        const day = parseShortDate(label);
+        if (!day) continue;
+        if (range.from && day < range.from) return candidate ? open(candidate) : false;
+        if (range.to && day > range.to) continue;
+        if (direction === 'right') return open(label);
+        candidate = label;
+      }
+      const last = labels[labels.length - 1] ?? null;
+      if (last === lastLabel) break; // end of the library
+      lastLabel = last;
+      await links.last().scrollIntoViewIfNeeded();
+      await this.page.waitForTimeout(1000);
+    }
+    return candidate ? open(candidate) : false;
+  }
+
+  /**
+   * Scroll the whole grid from the top and hand every photo link to `onItems` once,
+   * in grid order (newest first), as { id, label }. Stops when `idleScrolls` scrolls
+   * in a row bring no new links. Resolves to the number of links found.
+   */
+  async collectGrid(onItems: (items: GridItem[]) => Promise<void>, idleScrolls = 3): Promise<number> {
+    const links = this.gridItems;
+    await links.first().waitFor({ state: 'visible' });
+    const seen = new Set<string>();
+    let idle = 0;
+    for (let scroll = 0; scroll < MAX_GRID_SCROLLS && idle < idleScrolls; scroll++) {
+      const visible = await links.evaluateAll((els) => els.map((el) => ({
+        href: el.getAttribute('href') ?? '',
+        label: el.getAttribute('aria-label') ?? '',
+      })));
+      const items: GridItem[] = [];
+      for (const { href, label } of visible) {
+        const id = href.match(/\/photo\/([A-Za-z0-9_-]+)/)?.[1];
+        if (!id || seen.has(id)) continue;
+        seen.add(id);
+        items.push({ id, label });
+      }
+      idle = items.length ? 0 : idle + 1;
+      if (items.length) await onItems(items);
+      await links.last().scrollIntoViewIfNeeded();
+      await this.page.waitForTimeout(1000);
+    }
+    return seen.size;
+  }
+
+  /** Email of the signed-in Google account, from the avatar button in the page header. */
+  async readAccount(): Promise<string | null> {
+    const accountLink = this.page.locator('a[aria-label^="Google Account:"]').first();
+    await accountLink.waitFor({ state: 'attached', timeout: 10000 }).catch(() => {});
+    const label = await accountLink.getAttribute('aria-label').catch(() => null);
+    const email = label?.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/);
+    return email ? email[0].toLowerCase() : null;
+  }
+
+  async next(): Promise<void> {
+    await this.page.keyboard.press('ArrowRight');
+    await this.page.waitForTimeout(500);
+  }
+
+  async prev(): Promise<void> {
+    await this.page.keyboard.press('ArrowLeft');
+    await this.page.waitForTimeout(500);
+  }
+
+  async move(direction: Direction): Promise<void> {
+    await (direction === 'left' ? this.prev() : this.next());
+  }
+
+  /**
+   * Make sure the Info panel is shown. Waits for it first; only then clicks
+   * "Open info", twice if needed (sometimes the first click hides it).
+   */
+  async openInfoPanel(): Promise<Locator> {
+    const infoPanel = this.infoPanel;
+
+    let isPanelVisible = false;
+    for (let i = 0; i < 5; i++) {
+      isPanelVisible = await infoPanel.isVisible().catch(() => false);
+      if (isPanelVisible) break;
+      await this.page.waitForTimeout(500);
+    }
+
+    if (!isPanelVisible) {
+      const openInfoButton = this.page.getByRole('button', { name: 'Open info' });
+      await openInfoButton.waitFor({ state: 'visible', timeout: 5000 });
+      await openInfoButton.click();
+      await this.page.waitForTimeout(300);
+      const panelVisibleAfterFirstClick = await infoPanel.isVisible().catch(() => false);
+      if (!panelVisibleAfterFirstClick) {
+        console.log('Panel not visible after first click, clicking again...');
+        await openInfoButton.click();
+        await this.page.waitForTimeout(300);
+      }
+      await infoPanel.waitFor({ state: 'visible', timeout: 5000 });
+    }
+
+    return infoPanel;
+  }
+
+  /** Read everything we use from the Info panel of the current photo. */
+  async readInfo(): Promise<PhotoInfo> {
+    await this.page.waitForTimeout(500);
+
+    const urlMatch = this.page.url().match(/\/(?:photo|trash)\/([A-Za-z0-9_-]+)/);
+    const id = urlMatch ? urlMatch[1] : null;
+
+    const infoPanel = await this.openInfoPanel();
+    await expect(infoPanel).toBeVisible();
+
+    const storageSpan = infoPanel.locator('span').filter({
+      hasText: "This item doesn't take up space in your account storage.",
+    });
+    const notTakingSpace = await storageSpan.isVisible().catch(() => false);
+
+    const filenameDiv = infoPanel.locator('div.R9U8ab[aria-label^="Filename: "]');
+    await expect(filenameDiv).toBeVisible();
+    const filename = (await filenameDiv.textContent())?.trim() || null;
+
+    const { sizeText, fileSize } = await this.readFileSize(infoPanel);
+    const { storage, storageReason } = classifyStorage({ sizeText, fileSize, notTakingSpace });
+    const { dateTaken, metadataDate } = await this.readDate();
+    const lines = ((await infoPanel.innerText().catch(() => '')) || '').split('\n');
+    const dimensions = await this.readDimensions(infoPanel) ?? findDimensions(lines);
+    const metadata = await this.readMetadata(infoPanel, lines);
+
+    return {
+      id,
+      filename,
+      free: storage === 'free',
+      notTakingSpace,
+      storage,
+      storageReason,
+      fileSize,
+      fileSizeBytes: parseSize(fileSize),
+      dateTaken,
+      dimensions,
+      metadataDate,
+      filenameDate: filename ? parseFilenameDate(filename) : null,
+      metadata,
+    };
+  }
+
+  /** Read "Date taken" (+ time and timezone) from the Info panel, raw and as ISO. */
+  async readDate(): Promise<{ dateTaken: string | null; metadataDate: string | null }> {
+    const infoPanel = this.infoPanel;
+    try {
+      const dateElement = infoPanel.locator('div.R9U8ab[jsname="pG3jE"][aria-label^="Date taken:"]');
+      if (!(await dateElement.isVisible().catch(() => false))) {
+        return { dateTaken: null, metadataDate: null };
+      }
+      const dateAria = await dateElement.getAttribute('aria-label');
+      const dateText = dateAria?.match(/Date taken:\s*(.+)/i)?.[1].trim() ?? null;
+      if (!dateText) return { dateTaken: null, metadataDate: null };
+
+      let timeText: string | null = null;
+      const timeElement = infoPanel.locator('span.sprMUb[aria-label^="Time taken:"]');
+      if (await timeElement.isVisible().catch(() => false)) {
+        const timeAria = await timeElement.getAttribute('aria-label');
+        timeText = timeAria?.match(/Time taken:\s*(.+)/i)?.[1].trim() ?? null;
+      }
+
+      let timezone: string | null = null;
+      const tzElement = infoPanel.locator('span.sprMUb[aria-label^="GMT"]');
+      if (await tzElement.isVisible().catch(() => false)) {
+        timezone = (await tzElement.getAttribute('aria-label'))?.trim() ?? null;
+      }
+
+      return {
+        dateTaken: [dateText, timeText, timezone].filter(Boolean).join(' '),
+        metadataDate: parseMetadataDate(dateText, timeText, timezone),
+      };
+    } catch (error) {
+      console.log('Error extracting metadata date:', error);
+      return { dateTaken: null, metadataDate: null };
+    }
+  }
+
+  /**
+   * "File size: X" or "Backed up (X)": the raw text and the size parsed from it.
+   * sizeText without fileSize means a size is shown but could not be parsed.
+   */
+  private async readFileSize(infoPanel: Locator): Promise<{ sizeText: string | null; fileSize: string | null }> {
+    try {
+      const fileSizeElement = infoPanel.locator('[aria-label^="File size:"]');
+      if (await fileSizeElement.isVisible().catch(() => false)) {
+        const ariaLabel = (await fileSizeElement.getAttribute('aria-label'))?.trim() ?? null;
+        const sizeMatch = ariaLabel?.match(/File size:\s*([\d.]+)\s*(KB|MB|GB|B)\b/i);
+        return { sizeText: ariaLabel, fileSize: sizeMatch ? `${sizeMatch[1]} ${sizeMatch[2]}` : null };
+      }
+      const backedUpElement = infoPanel.locator('span').filter({ hasText: /Backed up\s*\(/i });
+      if (await backedUpElement.first().isVisible().catch(() => false)) {
+        const text = (await backedUpElement.first().textContent())?.trim() ?? null;
+        const sizeMatch = text?.match(/\(([\d.]+\s*(KB|MB|GB|B))\)/i);
+        return { sizeText: text, fileSize: sizeMatch ? sizeMatch[1] : null };
+      }
+    } catch (error) {
+      console.log('Error extracting file size:', error);
+    }
+    return { sizeText: null, fileSize: null };
+  }
+
+  private async readDimensions(infoPanel: Locator): Promise<string | null> {
+    try {
+      const dimEl = infoPanel.locator('[aria-label*="dimension" i], [aria-label*="×" i], [aria-label*=" x " i]');
+      if (await dimEl.first().isVisible().catch(() => false)) {
+        const label = await dimEl.first().getAttribute('aria-label');
+        if (label) return label.replace(/\s+/g, ' ').trim();
+      }
+      const sizeLike = infoPanel.locator('div.R9U8ab[aria-label*="0"]');
+      for (const node of await sizeLike.all()) {
+        const aria = await node.getAttribute('aria-label');
+        if (aria && /^\d+\s*[×x]\s*\d+/.test(aria)) return aria.trim();
+      }
+    } catch {
+      // ignore
+    }
+    return null;
+  }
+
+  /**
+   * Camera, exposure, location, description, people, albums and uploader. Camera and
+   * exposure are parsed from the panel's text lines, the rest read from its elements;
+   * whatever is missing stays null / [].
+   */
+  private async readMetadata(infoPanel: Locator, lines: string[]): Promise<PhotoMetadata> {
+    const texts = async (locator: Locator) =>
+      [...new Set((await locator.allInnerTexts().catch(() => [] as string[])).map((t) => t.trim()).filter(Boolean))];
+    try {
+      const description = infoPanel.locator('textarea[aria-label="Description"], textarea[placeholder="Add a description"]');
+      const descriptionText = await description.first().inputValue({ timeout: 1000 }).catch(() => '');
+      const location = infoPanel.locator('[aria-label^="Location:" i], a[href*="maps.google"], a[href*="/maps/"]');
+      const locationLabel = await location.first().getAttribute('aria-label', { timeout: 1000 }).catch(() => null);
+      const locationText = locationLabel?.replace(/^Location:\s*/i, '').trim()
+        || (await location.first().innerText({ timeout: 1000 }).catch(() => '')).trim();
+      return {
+        ...parsePanelLines(lines),
+        location: locationText || null,
+        description: descriptionText.trim() || null,
+        people: await texts(infoPanel.locator('a[href*="/people/"], a[href*="/search/"][aria-label]')),
+        albums: await texts(infoPanel.locator('a[href*="/album/"], a[href*="/share/"]')),
+      };
+    } catch (error) {
+      console.log('Error extracting metadata:', error);
+      return { ...NO_METADATA, ...parsePanelLines(lines) };
+    }
+  }
+
+  /**
+   * Read the photo after a next()/prev(). If the viewer still shows `previous`,
+   * wait and press the arrow again a few times; null means navigation is stuck.
+   */
+  async readInfoAfterMove(previous: PhotoInfo | null, direction: Direction = 'right'): Promise<PhotoInfo | null> {
+    let current = await this.readInfo();
+    if (!previous || !samePhoto(previous, current)) return current;
+
+    const maxRetries = 5;
+    for (let retryCount = 1; retryCount <= maxRetries && samePhoto(previous, current); retryCount++) {
+      if (retryCount > 1) {
+        await this.page.keyboard.press(ARROW[direction]);
+        await this.page.waitForTimeout(5000);
+      }
+      console.log(`Navigation unchanged (id/metadata same), retry ${retryCount}/${maxRetries}...`);
+      await this.page.waitForTimeout(5000);
+      current = await this.readInfo();
+    }
+    return samePhoto(previous, current) ? null : current;
+  }
+
+  /**
+   * Download the current photo with Shift+D into `dir`, under the name Google suggests.
+   * Never overwrites: a name already taken in `dir` or any of `otherDirs` (e.g. the done dir)
+   * gets a " (1)", " (2)", … suffix as Chrome would add.
+   * Resolves to the final file path (not Playwright's temp copy); check it with verifyDownload().
+   */
+  async download(dir: string, otherDirs: string[] = []): Promise<string> {
+    const [download] = await Promise.all([
+      this.page.waitForEvent('download', { timeout: 5 * 60 * 1000 }),
+      this.sendShiftD(),
+    ]);
+    const failure = await download.failure();
+    if (failure) throw new Error(`Download failed: ${failure}`);
+    const localPath = await freePath(dir, download.suggestedFilename(), otherDirs);
+    await download.saveAs(localPath);
+    console.log('Downloaded to:', localPath);
+    await this.page.waitForTimeout(1000);
+    return localPath;
+  }
+
+  private async sendShiftD(): Promise<void> {
+    await this.page.keyboard.down('Shift');
+    await this.page.keyboard.press('D');
+    await this.page.keyboard.up('Shift');
+  }
+
+  /**
+   * Move the current photo to trash, retrying once after closing any stray dialog.
+   * Resolves to the "recover X MB" amount of the confirmation dialog (null if not shown).
+   * With dryRun the dialog is opened and read, then cancelled. With retry: false a failed
+   * attempt throws at once: if it did trash the photo and only the "Moved to trash" toast
+   * was missed, the viewer already shows the next photo, which a retry would trash.
+   */
+  async trash({ dryRun = false, retry = true }: { dryRun?: boolean; retry?: boolean } = {}): Promise<string | null> {
+    const maxRetries = retry ? 2 : 1;
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        if (attempt > 1) {
+          console.log(`Retrying deletion (attempt ${attempt}/${maxRetries})...`);
+          await this.page.waitForTimeout(1000);
+        }
+        await this.page.getByRole('button', { name: 'Move to trash' }).click();
+        return await this.confirmMoveToTrash(dryRun);
+      } catch (error) {
+        lastError = error as Error;
+        console.log(`Deletion attempt ${attempt} failed:`, error);
+        if (attempt < maxRetries) {
+          await this.page.waitForTimeout(1000);
+          try {
+            const closeButton = this.page.getByRole('button', { name: /close|cancel/i });
+            if (await closeButton.isVisible().catch(() => false)) {
+              await closeButton.click();
+              await this.page.waitForTimeout(500);
+            }
+          } catch {
+            // Ignore errors when trying to close dialogs
+          }
+        }
+      }
+    }
+    throw lastError || new Error('Deletion failed after all retries');
+  }
+
+  private async confirmMoveToTrash(dryRun: boolean): Promise<string | null> {
+    const modalText = this.page.locator('text=Remove from your Google Account');
+    await modalText.waitFor({ state: 'visible' });
+
+    const text = await modalText.innerText();
+    const match = text.match(/recover\s+([\d.]+)\s*(KB|MB|GB)/i);
+    const recoverable = match ? `${match[1]} ${match[2]}` : null;
+    if (!recoverable) console.log(text);
+
+    const dialog = this.page.getByRole('dialog');
+    if (dryRun) {
+      console.log(`🔍 Dry run: would free ${recoverable ?? 'unknown amount'}`);
+      await dialog.getByRole('button', { name: 'Cancel' }).click();
+      await dialog.waitFor({ state: 'hidden', timeout: 5000 });
+      return recoverable;
+    }
+
+    if (recoverable) console.log(`🗑️ Deleting photo, freeing ${recoverable}`);
+    await dialog.getByRole('button', { name: 'Move to trash' }).click();
+    await this.page.waitForSelector('text=Moved to trash', { timeout: 5000 });
+    return recoverable;
+  }
+
+  /**
+   * Restore the trashed item open in the trash viewer (openTrashedPhoto) to the library,
+   * confirming the dialog if one asks.
+   */
+  async restore(): Promise<void> {
+    await this.page.getByRole('button', { name: 'Restore' }).first().click();
+    const dialog = this.page.getByRole('dialog');
+    if (await dialog.isVisible().catch(() => false)) {
+      await dialog.getByRole('button', { name: 'Restore' }).click();
+      await dialog.waitFor({ state: 'hidden', timeout: 5000 });
+    }
+    await this.page.waitForSelector('text=/restored/i', { timeout: 5000 }).catch(() => {
+      console.log('No "Restored" message seen; checking the library');
+    });
+  }
+
+  /** Set "Date taken" of the current photo via the pencil next to the date. */
+  async setDate(dateISO: string, utcOffsetHours = 3): Promise<void> {
+    const dateComponents = toDateComponents(dateISO, utcOffsetHours);
+    if (!dateComponents) throw new Error(`Failed to convert date: ${dateISO}`);
+    console.log(`  Date components (UTC${utcOffsetHours >= 0 ? '+' : ''}${utcOffsetHours}): ${dateComponents.year}-${dateComponents.month}-${dateComponents.day} ${dateComponents.hour}:${dateComponents.minute} ${dateComponents.ampm}`);
+
+    await this.openInfoPanel();
+    await this.page.waitForTimeout(500);
+    await this.clickDateEditButton();
+    await this.page.waitForTimeout(500);
+    await this.fillDateFields(dateComponents);
+    await this.waitForDatePopupToDisappear();
+    await this.page.waitForTimeout(1000);
+  }
+
+  private async clickDateEditButton(): Promise<void> {
+    // The div with jsname="sMyUPe" holds the pencil icon; its clickable child has jsaction="click:pRBiFd"
+    const dateEditContainer = this.infoPanel.locator('div[jsname="sMyUPe"]');
+    await dateEditContainer.waitFor({ state: 'visible', timeout: 10000 });
+    const dateEditButton = dateEditContainer.locator('div[jsaction="click:pRBiFd"]');
+    await dateEditButton.waitFor({ state: 'visible', timeout: 5000 });
+    await dateEditButton.click();
+    await this.page.waitForTimeout(500);
+  }
+
+  private async fillDateFields(dateComponents: DateComponents): Promise<void> {
+    const popup = this.page.locator('div.uW2Fw-P5QLlc.cPSYW[aria-modal="true"]');
+    await popup.waitFor({ state: 'visible', timeout: 10000 });
+
+    const fields: [container: string, label: string, value: string][] = [
+      ['A1zabe', 'Year', dateComponents.year],
+      ['byRamd', 'Month', dateComponents.month],
+      ['SSBzX', 'Day', dateComponents.day],
+      ['UJav8d', 'Hour', dateComponents.hour],
+      ['jtSTYe', 'Minutes', dateComponents.minute],
+    ];
+    for (const [container, label, value] of fields) {
+      const input = this.page.locator(`div[jsname="${container}"]`).locator(`input[jsname="YPqjbf"][aria-label="${label}"]`);
+      await input.waitFor({ state: 'visible', timeout: 5000 });
+      await input.clear();
+      await input.fill(value);
+      await this.page.waitForTimeout(200);
+    }
+
+    const ampmInput = this.page.locator('input[jsname="nhrP1"][aria-label="AM/PM"]');
+    await ampmInput.waitFor({ state: 'visible', timeout: 5000 });
+    await ampmInput.clear();
+    await ampmInput.fill(dateComponents.ampm);
+    await this.page.waitForTimeout(200);
+
+    // Timezone should already be right, so we don't change it
+    const saveButton = this.page.locator('button[data-mdc-dialog-action="EBS5u"]');
+    await saveButton.waitFor({ state: 'visible', timeout: 5000 });
+    await saveButton.click();
+    await this.page.waitForTimeout(500);
+  }
+
+  private async waitForDatePopupToDisappear(): Promise<void> {
+    const popup = this.page.locator('div.uW2Fw-P5QLlc.cPSYW[aria-modal="true"]');
+    await popup.waitFor({ state: 'hidden', timeout: 10000 }).catch(() => {
+      // If it doesn't disappear, wait a bit more
+      return this.page.waitForTimeout(2000);
+    });
+  }
+}
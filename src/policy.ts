@@ -0,0 +1,205 @@
+import { readFile } from 'fs/promises';
+import { ConfigError } from './errors.js';
+import { cameraOf } from './metadata.js';
+import { parseSize } from './sizes.js';
+import { storageOf } from './storage.js';
+import type { PhotoInfo } from './types.js';
+
+/**
+ * What to do with a photo:
+ * download – keep a local copy, never trash; download+delete – download, then trash;
+ * skip – leave it alone this time; protect – never download or trash, wins over every other rule;
+ * review – storage status unknown, never touched automatically (not allowed in policy files).
+ */
+export type PolicyAction = 'download' | 'download+delete' | 'skip' | 'protect' | 'review';
+
+const ACTIONS: PolicyAction[] = ['download', 'download+delete', 'skip', 'protect'];
+
+/** Conditions of one rule; all given conditions must hold. */
+export type RuleMatch = {
+  filename?: string; // glob, * and ?, case-insensitive
+  filenameRegex?: string;
+  dateFrom?: string; // YYYY-MM-DD, inclusive, compared with metadataDate
+  dateTo?: string;
+  minSize?: number | string; // bytes, or "10 MB"
+  maxSize?: number | string;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  mediaType?: 'photo' | 'video'; // by filename extension
+  camera?: string; // glob on camera make and model, "Google Pixel*"
+  free?: boolean;
+  ids?: string[]; // only these photo ids
+  excludeIds?: string[]; // never these photo ids
+};
+
+export type PolicyRule = { name: string; action: PolicyAction; match: RuleMatch };
+
+/** Contents of a policy file. */
+export type Policy = {
+  rules: PolicyRule[];
+  default?: PolicyAction; // for non-free photos no rule matches, default download+delete
+};
+
+/** The fields a rule can look at; both PhotoInfo and log entries have them. */
+export type PolicySubject = Partial<Pick<PhotoInfo,
+  'id' | 'filename' | 'free' | 'storage' | 'fileSize' | 'fileSizeBytes' | 'dimensions' | 'metadataDate' | 'metadata'>>;
+
+/** The action for one photo and the rule that chose it (null: the policy's default). */
+export type PolicyDecision = { action: PolicyAction; rule: string | null };
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', '3gp', 'avi', 'mkv', 'webm', 'mts', 'm2ts'];
+
+const MATCH_KEYS: (keyof RuleMatch)[] = [
+  'filename', 'filenameRegex', 'dateFrom', 'dateTo', 'minSize', 'maxSize',
+  'minWidth', 'maxWidth', 'minHeight', 'maxHeight', 'mediaType', 'camera', 'free', 'ids', 'excludeIds',
+];
+
+/** Without a policy file: download and trash every non-free photo, leave free ones alone. */
+export const DEFAULT_POLICY: Policy = { rules: [] };
+
+/** `*` and `?` wildcards, case-insensitive, matching the whole text. */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+function sizeLimit(value: number | string | undefined): number | null {
+  if (value == null) return null;
+  return typeof value === 'number' ? value : parseSize(value);
+}
+
+function parseDimensions(dimensions: string | null | undefined): { width: number; height: number } | null {
+  const match = dimensions?.match(/(\d+)\s*[×x]\s*(\d+)/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : null;
+}
+
+function mediaTypeOf(filename: string | null | undefined): 'photo' | 'video' | null {
+  const extension = filename?.match(/\.([^.]+)$/)?.[1].toLowerCase();
+  if (!extension) return null;
+  return VIDEO_EXTENSIONS.includes(extension) ? 'video' : 'photo';
+}
+
+/** Does `photo` satisfy every condition of `match`? Missing data never satisfies a condition. */
+export function matchesRule(match: RuleMatch, photo: PolicySubject): boolean {
+  const { filename, id } = photo;
+  if (match.ids && !(id && match.ids.includes(id))) return false;
+  if (match.excludeIds && id && match.excludeIds.includes(id)) return false;
+  if (match.free != null && photo.free !== match.free) return false;
+  if (match.filename && !(filename && globToRegExp(match.filename).test(filename))) return false;
+  if (match.filenameRegex && !(filename && new RegExp(match.filenameRegex).test(filename))) return false;
+  if (match.mediaType && mediaTypeOf(filename) !== match.mediaType) return false;
+  if (match.camera) {
+    const camera = cameraOf(photo.metadata);
+    if (!(camera && globToRegExp(match.camera).test(camera))) return false;
+  }
+
+  if (match.dateFrom || match.dateTo) {
+    const day = photo.metadataDate?.slice(0, 10);
+    if (!day) return false;
+    if (match.dateFrom && day < match.dateFrom) return false;
+    if (match.dateTo && day > match.dateTo) return false;
+  }
+
+  const minSize = sizeLimit(match.minSize);
+  const maxSize = sizeLimit(match.maxSize);
+  if (minSize != null || maxSize != null) {
+    const bytes = photo.fileSizeBytes ?? parseSize(photo.fileSize);
+    if (bytes == null) return false;
+    if (minSize != null && bytes < minSize) return false;
+    if (maxSize != null && bytes > maxSize) return false;
+  }
+
+  if (match.minWidth != null || match.maxWidth != null || match.minHeight != null || match.maxHeight != null) {
+    const size = parseDimensions(photo.dimensions);
+    if (!size) return false;
+    if (match.minWidth != null && size.width < match.minWidth) return false;
+    if (match.maxWidth != null && size.width > match.maxWidth) return false;
+    if (match.minHeight != null && size.height < match.minHeight) return false;
+    if (match.maxHeight != null && size.height > match.maxHeight) return false;
+  }
+  return true;
+}
+
+/**
+ * First matching rule in file order, except that a matching `protect` rule always wins.
+ * Free photos no rule matches are skipped; non-free ones get the policy's default.
+ * Photos of unknown storage status go to review whatever the rules say.
+ */
+export function decide(policy: Policy, photo: PolicySubject): PolicyDecision {
+  if (photo.storage === 'unknown') return { action: 'review', rule: null };
+  const matching = policy.rules.filter((rule) => matchesRule(rule.match, photo));
+  const rule = matching.find((r) => r.action === 'protect') ?? matching[0];
+  if (rule) return { action: rule.action, rule: rule.name };
+  return { action: storageOf(photo) === 'free' ? 'skip' : policy.default ?? 'download+delete', rule: null };
+}
+
+/** "download (rule "videos")" for log output. */
+export function describeDecision({ action, rule }: PolicyDecision): string {
+  if (action === 'review') return 'review (storage status unknown)';
+  return rule ? `${action} (rule "${rule}")` : `${action} (default)`;
+}
+
+export function shouldDownload(action: PolicyAction): boolean {
+  return action === 'download' || action === 'download+delete';
+}
+
+export function shouldDelete(action: PolicyAction): boolean {
+  return action === 'download+delete';
+}
+
+function checkRule(rule: PolicyRule, index: number, file: string): void {
+  const where = `${file}: rule ${index + 1}${typeof rule?.name === 'string' ? ` "${rule.name}"` : ''}`;
+  if (!rule || typeof rule !== 'object') throw new ConfigError(`${where} must be an object`);
+  if (typeof rule.name !== 'string' || !rule.name) throw new ConfigError(`${where} needs a "name"`);
+  if (!ACTIONS.includes(rule.action)) throw new ConfigError(`${where}: action must be one of ${ACTIONS.join(', ')}`);
+  const match = rule.match ?? {};
+  rule.match = match;
+  for (const key of Object.keys(match)) {
+    if (!MATCH_KEYS.includes(key as keyof RuleMatch)) throw new ConfigError(`${where}: unknown condition "${key}"`);
+  }
+  if (match.camera != null && typeof match.camera !== 'string') throw new ConfigError(`${where}: camera must be a text`);
+  for (const key of ['dateFrom', 'dateTo'] as const) {
+    if (match[key] != null && !/^\d{4}-\d{2}-\d{2}$/.test(match[key]!)) throw new ConfigError(`${where}: ${key} must be YYYY-MM-DD`);
+  }
+  for (const key of ['minSize', 'maxSize'] as const) {
+    if (match[key] != null && sizeLimit(match[key]) == null) throw new ConfigError(`${where}: ${key} must be bytes or a size like "10 MB"`);
+  }
+  for (const key of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+    if (match[key] != null && typeof match[key] !== 'number') throw new ConfigError(`${where}: ${key} must be a number`);
+  }
+  if (match.mediaType != null && match.mediaType !== 'photo' && match.mediaType !== 'video') {
+    throw new ConfigError(`${where}: mediaType must be "photo" or "video"`);
+  }
+  for (const key of ['ids', 'excludeIds'] as const) {
+    if (match[key] != null && !(Array.isArray(match[key]) && match[key]!.every((id) => typeof id === 'string'))) {
+      throw new ConfigError(`${where}: ${key} must be a list of photo ids`);
+    }
+  }
+  if (match.filenameRegex != null) {
+    try {
+      new RegExp(match.filenameRegex);
+    } catch (error) {
+      throw new ConfigError(`${where}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/** Read and validate a policy file; DEFAULT_POLICY if `file` is null. */
+export async function loadPolicy(file: string | null): Promise<Policy> {
+  if (!file) return DEFAULT_POLICY;
+  let policy: Policy;
+  try {
+    policy = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(`Cannot read policy ${file}: ${(error as Error).message}`);
+  }
+  if (!policy || !Array.isArray(policy.rules)) throw new ConfigError(`${file} must have a "rules" list`);
+  if (policy.default != null && !ACTIONS.includes(policy.default)) {
+    throw new ConfigError(`${file}: default must be one of ${ACTIONS.join(', ')}`);
+  }
+  policy.rules.forEach((rule, i) => checkRule(rule, i, file));
+  console.log(`Policy: ${file} (${policy.rules.length} rules)`);
+  return policy;
+}
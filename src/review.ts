@@ -0,0 +1,28 @@
+import { writeFile } from 'fs/promises';
+import type { PhotoInfo } from './types.js';
+
+/** One line of review.log: a photo left alone because its storage status is unknown. */
+export type ReviewEntry = {
+  id: string | null;
+  filename: string | null;
+  fileSize: string | null;
+  storageReason: string;
+  command: string;
+  account: string | null;
+  seenAt: string;
+};
+
+/** Append `photo` to the review list and say so on the console. */
+export async function addToReview(reviewLog: string, photo: PhotoInfo, command: string, account: string | null): Promise<void> {
+  console.log(`⚠ Storage status unknown (${photo.storageReason}); left for review in ${reviewLog}`);
+  const entry: ReviewEntry = {
+    id: photo.id,
+    filename: photo.filename,
+    fileSize: photo.fileSize,
+    storageReason: photo.storageReason,
+    command,
+    account,
+    seenAt: new Date().toISOString(),
+  };
+  await writeFile(reviewLog, JSON.stringify(entry) + '\n', { flag: 'a' });
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { formatBytes, parseSize } from './sizes.js';
+
+/** One line of the profile's runs.log: what a single command invocation did. */
+export type RunStats = {
+  runId: string;
+  command: string;
+  profile: string | null;
+  account: string | null;
+  dryRun: boolean; // photosTrashed/bytesFreed are what would have been freed
+  startedAt: string;
+  endedAt: string | null;
+  exitCode: number | null;
+  photosDownloaded: number;
+  bytesDownloaded: number;
+  photosTrashed: number;
+  bytesFreed: number; // sum of the trash dialogs' "recover X MB"
+  trashedWithoutAmount: number; // trashed photos whose dialog showed no parsable amount
+  photosPushed?: number; // pushed to the phone by `upload` (not in runs of older versions)
+  bytesPushed?: number;
+};
+
+export function startRun(command: string, profile: string | null, dryRun: boolean): RunStats {
+  return {
+    runId: randomUUID(),
+    command,
+    profile,
+    account: null,
+    dryRun,
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    exitCode: null,
+    photosDownloaded: 0,
+    bytesDownloaded: 0,
+    photosTrashed: 0,
+    bytesFreed: 0,
+    trashedWithoutAmount: 0,
+    photosPushed: 0,
+    bytesPushed: 0,
+  };
+}
+
+export function recordDownload(run: RunStats, bytes: number): void {
+  run.photosDownloaded++;
+  run.bytesDownloaded += bytes;
+}
+
+export function recordPush(run: RunStats, bytes: number): void {
+  run.photosPushed = (run.photosPushed ?? 0) + 1;
+  run.bytesPushed = (run.bytesPushed ?? 0) + bytes;
+}
+
+/** Count a trashed photo; `recoverable` is the dialog's text ("3.2 MB"). Returns it in bytes. */
+export function recordTrash(run: RunStats, recoverable: string | null): number | null {
+  const bytes = parseSize(recoverable);
+  run.photosTrashed++;
+  if (bytes === null) {
+    run.trashedWithoutAmount++;
+  } else {
+    run.bytesFreed += bytes;
+  }
+  return bytes;
+}
+
+export function formatFreed(run: RunStats): string {
+  const unknown = run.trashedWithoutAmount ? ` (${run.trashedWithoutAmount} without a parsable amount)` : '';
+  return `${formatBytes(run.bytesFreed)} ${run.dryRun ? 'recoverable' : 'freed'} from ${run.photosTrashed} photos${unknown}`;
+}
+
+/** Stamp the end of the run and append it to the run log. */
+export async function finishRun(run: RunStats, runLog: string, exitCode: number): Promise<void> {
+  run.endedAt = new Date().toISOString();
+  run.exitCode = exitCode;
+  await writeFile(runLog, JSON.stringify(run) + '\n', { flag: 'a' });
+}
+
+/** All runs in the run log, oldest first; unparsable lines are skipped. */
+export async function readRuns(runLog: string): Promise<RunStats[]> {
+  let content: string;
+  try {
+    content = await readFile(runLog, 'utf8');
+  } catch {
+    return [];
+  }
+  const runs: RunStats[] = [];
+  for (const line of content.split('\n').filter((l) => l.trim())) {
+    try {
+      runs.push(JSON.parse(line) as RunStats);
+    } catch {
+      // a line cut off by a crash
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,55 @@
+/** Which collection a walk stays in: the whole library, one album (own or shared) or a search result. */
+export type Scope =
+  | { kind: 'library' }
+  | { kind: 'album'; url: string }
+  | { kind: 'search'; query: string };
+
+export const PHOTOS_URL = 'https://photos.google.com';
+
+export const LIBRARY: Scope = { kind: 'library' };
+
+/** The collection's page, where its grid is. */
+export function scopeUrl(scope: Scope): string {
+  switch (scope.kind) {
+    case 'library': return PHOTOS_URL;
+    case 'album': return scope.url;
+    case 'search': return `${PHOTOS_URL}/search/${encodeURIComponent(scope.query)}`;
+  }
+}
+
+/**
+ * A photo opened inside the collection, so ArrowLeft/ArrowRight stay in it:
+ * /album/<album>/photo/<id>, /share/<album>/photo/<id>?key=…, /search/<query>/photo/<id>.
+ */
+export function photoUrl(scope: Scope, id: string): string {
+  const url = new URL(scopeUrl(scope));
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/photo/${id}`;
+  return url.toString();
+}
+
+export function describeScope(scope: Scope): string {
+  switch (scope.kind) {
+    case 'library': return 'the whole library';
+    case 'album': return `album ${scope.url}`;
+    case 'search': return `search "${scope.query}"`;
+  }
+}
+
+export function sameScope(a: Scope, b: Scope): boolean {
+  return describeScope(a) === describeScope(b);
+}
+
+/** Album URL without a trailing /photo/<id>; null if it is not a photos.google.com album or shared album. */
+export function normalizeAlbumUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  const match = url.pathname.match(/^(\/(?:u\/\d+\/)?(?:album|share)\/[A-Za-z0-9_-]+)/);
+  if (url.hostname !== 'photos.google.com' || !match) return null;
+  url.pathname = match[1];
+  url.hash = '';
+  return url.toString();
+}
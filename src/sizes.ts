@@ -0,0 +1,23 @@
+const UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+};
+
+/** "443.6 KB" -> bytes; null if the text has no recognizable size. */
+export function parseSize(text: string | null | undefined): number | null {
+  const match = text?.match(/([\d.]+)\s*(KB|MB|GB|B)\b/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  if (isNaN(value)) return null;
+  return Math.round(value * UNITS[match[2].toUpperCase()]);
+}
+
+/** Bytes -> "1.2 GB" style text. */
+export function formatBytes(bytes: number): string {
+  for (const unit of ['GB', 'MB', 'KB'] as const) {
+    if (bytes >= UNITS[unit]) return `${(bytes / UNITS[unit]).toFixed(1)} ${unit}`;
+  }
+  return `${bytes} B`;
+}
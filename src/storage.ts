@@ -0,0 +1,26 @@
+import type { StorageClass } from './types.js';
+
+/** What the Info panel says about storage. */
+export type StorageSignals = {
+  sizeText: string | null; // raw "File size: …" label or "Backed up (…)" text, if shown
+  fileSize: string | null; // size parsed from sizeText, e.g. "443.6 KB"
+  notTakingSpace: boolean; // "This item doesn't take up space in your account storage."
+};
+
+/**
+ * Combine the storage signals. Only a parsed size without the no-space message counts
+ * against storage, and only the no-space message without a size is free; anything
+ * else (unparsable size, both signals, neither) is unknown and left for review.
+ */
+export function classifyStorage({ sizeText, fileSize, notTakingSpace }: StorageSignals): { storage: StorageClass; storageReason: string } {
+  if (sizeText && !fileSize) return { storage: 'unknown', storageReason: `size not understood: "${sizeText}"` };
+  if (fileSize && notTakingSpace) return { storage: 'unknown', storageReason: `size ${fileSize} shown with the no-space message` };
+  if (fileSize) return { storage: 'counts', storageReason: sizeText! };
+  if (notTakingSpace) return { storage: 'free', storageReason: "doesn't take up space" };
+  return { storage: 'unknown', storageReason: 'no size and no no-space message' };
+}
+
+/** Storage class of a log entry; entries logged before classification only have `free`. */
+export function storageOf(entry: { storage?: StorageClass; free?: boolean }): StorageClass {
+  return entry.storage ?? (entry.free ? 'free' : 'counts');
+}
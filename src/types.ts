@@ -0,0 +1,45 @@
+/** free: doesn't take up space; counts: counts against storage; unknown: signals missing or contradictory. */
+export type StorageClass = 'free' | 'counts' | 'unknown';
+
+/** Everything the Info panel tells us about the photo currently open in the viewer. */
+export type PhotoInfo = {
+  id: string | null;
+  filename: string | null;
+  free: boolean; // storage === 'free'
+  notTakingSpace: boolean; // true if photo has "doesn't take up space" message
+  storage: StorageClass;
+  storageReason: string; // which signals led to `storage`
+  fileSize: string | null; // file size if available (e.g., "443.6 KB")
+  fileSizeBytes: number | null; // fileSize in bytes
+  dateTaken: string | null; // raw "Date taken" + time + timezone text from the panel
+  dimensions: string | null;
+  metadataDate: string | null; // ISO format date from metadata
+  filenameDate: string | null; // ISO format date from filename
+  metadata: PhotoMetadata;
+};
+
+/** The rest of the Info panel; null or [] for what it does not show. */
+export type PhotoMetadata = {
+  cameraMake: string | null; // "Google"; null if the make is not recognized, see cameraModel
+  cameraModel: string | null; // "Pixel 7", or the whole camera line
+  aperture: number | null; // f-number, 1.85 for "ƒ/1.85"
+  exposureTime: string | null; // "1/120"
+  iso: number | null;
+  focalLength: number | null; // mm
+  megapixels: number | null;
+  location: string | null; // place name as shown, "Berlin, Germany"
+  description: string | null;
+  people: string[]; // names of the face groups shown
+  albums: string[]; // album titles shown
+  uploadedBy: string | null; // in shared albums: who added the photo
+};
+
+/** Date/time fields as shown by the "Edit date & time" dialog. */
+export type DateComponents = {
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minute: string;
+  ampm: 'AM' | 'PM';
+};
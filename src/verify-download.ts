@@ -0,0 +1,98 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { access, stat } from 'fs/promises';
+import { DownloadVerificationError } from './errors.js';
+import { parseSize } from './sizes.js';
+
+/** Allowed difference between the file on disk and the Info panel's rounded "File size". */
+const SIZE_TOLERANCE = 0.05;
+const COMPLETE_TIMEOUT_MS = 60 * 1000;
+
+/** What the log stores about a verified download. */
+export type DownloadRecord = {
+  localPath: string;
+  bytes: number;
+  sha256: string;
+};
+
+async function exists(file: string): Promise<boolean> {
+  return access(file).then(() => true, () => false);
+}
+
+export async function sha256File(file: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(file)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+/** Wait until the file exists and Chrome has no .crdownload left for it. */
+async function waitForComplete(localPath: string): Promise<void> {
+  const deadline = Date.now() + COMPLETE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (await exists(localPath) && !(await exists(`${localPath}.crdownload`))) return;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new DownloadVerificationError(`${localPath} did not finish downloading within ${COMPLETE_TIMEOUT_MS / 1000}s`);
+}
+
+/** "IMG_0001 (1).JPG" -> "img_0001.jpg": the name a download was saved under without its " (n)" suffix. */
+function downloadName(basename: string): string {
+  return basename.toLowerCase().replace(/ \(\d+\)(\.[^.]*)?$/, '$1');
+}
+
+/**
+ * Check a finished download against the Info panel: file name (apart from a " (n)" suffix
+ * added so as not to overwrite an earlier download), byte size within
+ * tolerance of the displayed `fileSize`, and compute its SHA-256.
+ */
+export async function verifyDownload(localPath: string, filename: string | null, fileSize: string | null): Promise<DownloadRecord> {
+  await waitForComplete(localPath);
+
+  if (filename && downloadName(path.basename(localPath)) !== filename.toLowerCase()) {
+    throw new DownloadVerificationError(`Downloaded ${path.basename(localPath)}, expected ${filename}`);
+  }
+
+  const { size: bytes } = await stat(localPath);
+  if (bytes === 0) throw new DownloadVerificationError(`${localPath} is empty`);
+
+  const expected = parseSize(fileSize);
+  if (expected !== null && Math.abs(bytes - expected) > expected * SIZE_TOLERANCE) {
+    throw new DownloadVerificationError(`${localPath} has ${bytes} bytes, Info panel says ${fileSize}`);
+  }
+
+  return { localPath, bytes, sha256: await sha256File(localPath) };
+}
+
+export type BackupCheck =
+  | { ok: true; path: string }
+  | { ok: false; problem: string };
+
+/**
+ * Find the local copy of a downloaded photo (recorded localPath, else by name in any
+ * of `dirs`, e.g. the download dir and the done dir `gphotos upload` moves files into)
+ * and re-hash it against the SHA-256 recorded at download time.
+ */
+export async function findVerifiedBackup(
+  entry: { filename: string | null; localPath?: string; sha256?: string },
+  dirs: string[],
+): Promise<BackupCheck> {
+  if (!entry.sha256) return { ok: false, problem: 'no sha256 recorded at download time' };
+
+  const name = entry.localPath ? path.basename(entry.localPath) : entry.filename;
+  const candidates = [
+    ...(entry.localPath ? [entry.localPath] : []),
+    ...(name ? dirs.map((dir) => path.join(dir, name)) : []),
+  ];
+  const seen = new Set<string>();
+  let hashMismatch: string | null = null;
+  for (const candidate of candidates) {
+    const resolved = path.resolve(candidate);
+    if (seen.has(resolved) || !(await exists(resolved))) continue;
+    seen.add(resolved);
+    if (await sha256File(resolved) === entry.sha256) return { ok: true, path: resolved };
+    hashMismatch = resolved;
+  }
+  if (hashMismatch) return { ok: false, problem: `${hashMismatch} does not match the recorded sha256` };
+  return { ok: false, problem: `no copy found in ${[...new Set(candidates.map((c) => path.dirname(path.resolve(c))))].join(', ') || 'any directory'}` };
+}
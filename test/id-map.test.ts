@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+import { IdMap, MatchFacts, matchPhotos, nameKey, readMatchFacts, scoreMatch } from '../src/id-map.js';
+
+function photo(id: string, facts: Partial<MatchFacts> = {}): MatchFacts {
+  return { id, filename: 'IMG_0001.JPG', fileSizeBytes: null, dimensions: null, days: [], rank: null, ...facts };
+}
+
+const full = { fileSizeBytes: 2_000_000, dimensions: '4000 × 3000', days: ['2023-05-01'] };
+
+test('nameKey drops case and copy suffixes', () => {
+  assert.equal(nameKey('IMG_0001 (1).JPG'), 'img_0001.jpg');
+  assert.equal(nameKey('IMG_0001-edited.jpg'), 'img_0001.jpg');
+  assert.equal(nameKey('IMG_0001.JPG'), 'img_0001.jpg');
+});
+
+test('different names are no candidates', () => {
+  assert.equal(scoreMatch(photo('N'), photo('O', { filename: 'IMG_0002.JPG' })), null);
+});
+
+test('the one original agreeing on everything is matched', () => {
+  const idMap = matchPhotos(
+    [photo('O1', full), photo('O2', { ...full, fileSizeBytes: 5_000_000, days: ['2021-01-01'] })],
+    [photo('N', full)],
+    null,
+  );
+  assert.deepEqual(idMap.matched.map((m) => [m.newId, m.oldId]), [['N', 'O1']]);
+  assert.deepEqual(idMap.ambiguous, []);
+});
+
+test('a sole candidate with only the filename is matched', () => {
+  const idMap = matchPhotos([photo('C1')], [photo('N3', { fileSizeBytes: 1000 })], null);
+  assert.deepEqual(idMap.matched.map((m) => [m.newId, m.oldId, m.score]), [['N3', 'C1', 2]]);
+});
+
+test('a sole candidate that a different size contradicts is ambiguous', () => {
+  const candidate = scoreMatch(photo('N', { fileSizeBytes: 1_000_000 }), photo('O', { fileSizeBytes: 3_000_000 }));
+  assert.equal(candidate?.contradicted, true);
+  assert.ok(candidate!.reasons.includes('different size'));
+  const idMap = matchPhotos([photo('O', { fileSizeBytes: 3_000_000 })], [photo('N', { fileSizeBytes: 1_000_000 })], null);
+  assert.deepEqual(idMap.matched, []);
+  assert.deepEqual(idMap.ambiguous.map((a) => a.newId), ['N']);
+});
+
+test('two equally good originals are a tie left for review', () => {
+  const idMap = matchPhotos([photo('O1', full), photo('O2', full)], [photo('N', full)], null);
+  assert.deepEqual(idMap.matched, []);
+  assert.deepEqual(idMap.ambiguous[0].candidates.map((c) => c.score), [10, 10]);
+});
+
+test('two new photos wanting the same original are both left for review', () => {
+  const idMap = matchPhotos([photo('O', full)], [photo('N1', full), photo('N2', full)], null);
+  assert.deepEqual(idMap.matched, []);
+  assert.deepEqual(idMap.ambiguous.map((a) => a.newId).sort(), ['N1', 'N2']);
+});
+
+test('a copy suffix or other case still makes a candidate, worth less than the exact name', () => {
+  const exact = scoreMatch(photo('N', full), photo('O', full))!;
+  const copy = scoreMatch(photo('N', { ...full, filename: 'img_0001 (1).jpg' }), photo('O', full))!;
+  assert.equal(exact.score - copy.score, 1);
+  assert.ok(copy.reasons.includes('same filename apart from case or copy suffix'));
+  const idMap = matchPhotos([photo('O', full)], [photo('N', { ...full, filename: 'IMG_0001-edited.JPG' })], null);
+  assert.deepEqual(idMap.matched.map((m) => m.oldId), ['O']);
+});
+
+test('the same place among the photos of a name tells otherwise equal originals apart', () => {
+  const olds = [photo('O1', { rank: { index: 0, of: 2 } }), photo('O2', { rank: { index: 1, of: 2 } })];
+  const news = [photo('N1', { rank: { index: 0, of: 2 } }), photo('N2', { rank: { index: 1, of: 2 } })];
+  const idMap = matchPhotos(olds, news, null);
+  assert.deepEqual(idMap.matched.map((m) => [m.newId, m.oldId]).sort(), [['N1', 'O1'], ['N2', 'O2']]);
+});
+
+test('order does not count when the logs have different numbers of photos of a name', () => {
+  const candidate = scoreMatch(photo('N', { rank: { index: 0, of: 3 } }), photo('O', { rank: { index: 0, of: 2 } }))!;
+  assert.deepEqual(candidate.reasons, ['same filename']);
+});
+
+test('manual matches are kept and their photos not matched again', () => {
+  const previous: IdMap = {
+    createdAt: '2026-01-01T00:00:00.000Z',
+    matched: [{ newId: 'N', oldId: 'O2', filename: 'IMG_0001.JPG', score: 0, reasons: [], manual: true }],
+    ambiguous: [],
+    unmatched: [],
+  };
+  const idMap = matchPhotos([photo('O1', full), photo('O2')], [photo('N', full)], previous);
+  assert.deepEqual(idMap.matched, previous.matched);
+});
+
+test('a new photo without any original of its name is unmatched', () => {
+  const idMap = matchPhotos([photo('O')], [photo('N', { filename: 'IMG_0002.JPG' })], null);
+  assert.deepEqual(idMap.unmatched, [{ newId: 'N', filename: 'IMG_0002.JPG' }]);
+});
+
+test('ranks are taken among the photos of a name in each log', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'gphotos-id-map-'));
+  try {
+    const lines = (entries: object[]) => entries.map((e) => JSON.stringify(e) + '\n').join('');
+    const old = (id: string, filename: string) => ({ id, filename, free: false, downloaded: true, deleted: true });
+    const upload = (id: string, filename: string) => ({ id, filename, metadataDate: null, filenameDate: null });
+    const logs = { photo: path.join(dir, 'photolog.json'), scan: path.join(dir, 'scan.log'), date: path.join(dir, 'datelog.json') };
+    await writeFile(logs.photo, lines([old('O1', 'IMG_0001.JPG'), old('X', 'IMG_0002.JPG'), old('O2', 'IMG_0001.JPG')]), 'utf8');
+    await writeFile(logs.scan, '', 'utf8');
+    await writeFile(logs.date, lines([upload('N1', 'IMG_0001.JPG'), upload('N2', 'IMG_0001.JPG'), upload('Y', 'IMG_0002.JPG')]), 'utf8');
+
+    const { olds, news } = await readMatchFacts(logs);
+    assert.deepEqual(olds.map((o) => [o.id, o.rank]), [['O1', { index: 0, of: 2 }], ['X', { index: 0, of: 1 }], ['O2', { index: 1, of: 2 }]]);
+    const idMap = matchPhotos(olds, news, null);
+    assert.deepEqual(idMap.matched.map((m) => [m.newId, m.oldId]).sort(), [['N1', 'O1'], ['N2', 'O2'], ['Y', 'X']]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { ConfigError } from '../src/errors.js';
+import { decide, DEFAULT_POLICY, loadPolicy, matchesRule, Policy, PolicySubject } from '../src/policy.js';
+import type { PhotoMetadata } from '../src/types.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const nonFree: PolicySubject = {
+  id: 'A', filename: 'IMG_0001.JPG', free: false, storage: 'counts', fileSize: '2 MB', fileSizeBytes: 2 * 1024 * 1024,
+  dimensions: '4000 × 3000', metadataDate: '2023-05-01T10:00:00.000Z',
+};
+const free: PolicySubject = { ...nonFree, id: 'B', free: true, storage: 'free', fileSize: null, fileSizeBytes: null };
+
+test('without rules non-free photos are downloaded and trashed, free ones skipped', () => {
+  assert.deepEqual(decide(DEFAULT_POLICY, nonFree), { action: 'download+delete', rule: null });
+  assert.deepEqual(decide(DEFAULT_POLICY, free), { action: 'skip', rule: null });
+});
+
+test('the policy default applies to non-free photos only', () => {
+  const policy: Policy = { rules: [], default: 'download' };
+  assert.deepEqual(decide(policy, nonFree), { action: 'download', rule: null });
+  assert.deepEqual(decide(policy, free), { action: 'skip', rule: null });
+});
+
+test('entries without storage fall back to free', () => {
+  const { storage, ...legacyFree } = free;
+  assert.equal(decide(DEFAULT_POLICY, legacyFree).action, 'skip');
+});
+
+test('the first matching rule wins', () => {
+  const policy: Policy = {
+    rules: [
+      { name: 'big', action: 'download', match: { minSize: '1 MB' } },
+      { name: 'all jpgs', action: 'skip', match: { filename: '*.jpg' } },
+    ],
+  };
+  assert.deepEqual(decide(policy, nonFree), { action: 'download', rule: 'big' });
+  assert.deepEqual(decide(policy, { ...nonFree, fileSizeBytes: 1000 }), { action: 'skip', rule: 'all jpgs' });
+});
+
+test('a matching protect rule beats earlier rules', () => {
+  const policy: Policy = {
+    rules: [
+      { name: 'everything', action: 'download+delete', match: {} },
+      { name: 'keep A', action: 'protect', match: { ids: ['A'] } },
+    ],
+  };
+  assert.deepEqual(decide(policy, nonFree), { action: 'protect', rule: 'keep A' });
+  assert.deepEqual(decide(policy, { ...nonFree, id: 'C' }), { action: 'download+delete', rule: 'everything' });
+});
+
+test('unknown storage goes to review whatever the rules say', () => {
+  const policy: Policy = { rules: [{ name: 'everything', action: 'download+delete', match: {} }] };
+  assert.deepEqual(decide(policy, { ...nonFree, storage: 'unknown' }), { action: 'review', rule: null });
+});
+
+test('missing data never matches a condition', () => {
+  const bare: PolicySubject = { id: null, filename: null };
+  const conditions = [
+    { filename: '*' }, { filenameRegex: '.*' }, { dateFrom: '1900-01-01' }, { dateTo: '2100-01-01' },
+    { minSize: 0 }, { maxSize: '10 GB' }, { minWidth: 0 }, { maxHeight: 100000 }, { mediaType: 'photo' as const },
+    { camera: '*' }, { free: false }, { ids: ['A'] },
+  ];
+  for (const match of conditions) assert.equal(matchesRule(match, bare), false, JSON.stringify(match));
+  assert.equal(matchesRule({ excludeIds: ['A'] }, bare), true); // nothing to exclude
+});
+
+test('conditions check their field', () => {
+  const metadata = { cameraMake: 'Google', cameraModel: 'Pixel 7' } as PhotoMetadata;
+  assert.equal(matchesRule({ filename: 'img_*.jpg' }, nonFree), true);
+  assert.equal(matchesRule({ dateFrom: '2023-05-02' }, nonFree), false);
+  assert.equal(matchesRule({ dateTo: '2023-05-01' }, nonFree), true);
+  assert.equal(matchesRule({ maxSize: '1 MB' }, nonFree), false);
+  assert.equal(matchesRule({ minWidth: 4000, maxHeight: 3000 }, nonFree), true);
+  assert.equal(matchesRule({ mediaType: 'video' }, { ...nonFree, filename: 'VID_0001.MP4' }), true);
+  assert.equal(matchesRule({ camera: 'Google Pixel*' }, { ...nonFree, metadata }), true);
+  assert.equal(matchesRule({ excludeIds: ['A'] }, nonFree), false);
+});
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'gphotos-policy-'));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function policyFile(content: unknown): Promise<string> {
+  const file = path.join(dir, `policy-${Math.random().toString(36).slice(2)}.json`);
+  await writeFile(file, typeof content === 'string' ? content : JSON.stringify(content), 'utf8');
+  return file;
+}
+
+test('the example policy loads', async () => {
+  const policy = await loadPolicy(path.join(ROOT, 'gphotos.policy.example.json'));
+  assert.equal(policy.rules.length, 4);
+});
+
+test('invalid policy files are config errors', async () => {
+  const rule = (fields: object) => ({ rules: [{ name: 'r', action: 'skip', match: {}, ...fields }] });
+  const invalid: [unknown, RegExp][] = [
+    ['{ not json', /Cannot read policy/],
+    [{}, /must have a "rules" list/],
+    [{ rules: [], default: 'trash' }, /default must be one of/],
+    [{ rules: [{ action: 'skip' }] }, /needs a "name"/],
+    [rule({ action: 'review' }), /action must be one of/],
+    [rule({ match: { size: 1 } }), /unknown condition "size"/],
+    [rule({ match: { dateFrom: '01.05.2023' } }), /dateFrom must be YYYY-MM-DD/],
+    [rule({ match: { minSize: 'big' } }), /minSize must be bytes or a size/],
+    [rule({ match: { maxWidth: '1024' } }), /maxWidth must be a number/],
+    [rule({ match: { mediaType: 'audio' } }), /mediaType must be "photo" or "video"/],
+    [rule({ match: { ids: 'A' } }), /ids must be a list of photo ids/],
+    [rule({ match: { filenameRegex: '(' } }), /rule 1 "r"/],
+  ];
+  for (const [content, message] of invalid) {
+    await assert.rejects(loadPolicy(await policyFile(content)), (error: Error) => error instanceof ConfigError && message.test(error.message));
+  }
+});
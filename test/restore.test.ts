@@ -0,0 +1,79 @@
+/**
+ * `gphotos restore --dry-run` selection on a log whose update lines were folded by
+ * `gphotos compact`: the trash times of the update lines must survive as deletedAt.
+ */
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'gphotos-restore-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function gphotos(...args: string[]): Promise<{ code: number; output: string }> {
+  return new Promise((resolve) => {
+    execFile(TSX, [path.join(ROOT, 'gphotos.ts'), ...args], { cwd: dir, timeout: 60 * 1000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? (typeof error.code === 'number' ? error.code : 1) : 0, output: stdout + stderr });
+    });
+  });
+}
+
+const entry = (id: string) => ({ schema: 2, id, filename: `${id}.jpg`, free: false, storage: 'counts', fileSize: '1 MB', downloaded: true });
+const trashed = (id: string, at: string) => ({ update: true, id, set: { deleted: true }, command: 'delete', at });
+
+/** A, B and C trashed by update lines without deletedAt (as delete wrote them before), C long before. */
+async function writeCompactedLog(): Promise<void> {
+  const lines = [
+    entry('A'), entry('B'), entry('C'),
+    trashed('C', '2026-01-01T00:00:00.000Z'),
+    trashed('A', '2026-10-01T10:00:00.000Z'),
+    trashed('B', '2026-10-01T10:05:00.000Z'),
+  ];
+  await writeFile(path.join(dir, 'scan.log'), lines.map((line) => JSON.stringify(line) + '\n').join(''), 'utf8');
+  const compacted = await gphotos('compact', '--log', 'scan.log');
+  assert.equal(compacted.code, 0, compacted.output);
+  assert.doesNotMatch(await readFile(path.join(dir, 'scan.log'), 'utf8'), /"update"/);
+}
+
+test('compact keeps the trash time of update lines as deletedAt', async () => {
+  await writeCompactedLog();
+  const entries = (await readFile(path.join(dir, 'scan.log'), 'utf8')).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+  assert.deepEqual(entries.map((e) => [e.id, e.deletedAt]), [
+    ['A', '2026-10-01T10:00:00.000Z'],
+    ['B', '2026-10-01T10:05:00.000Z'],
+    ['C', '2026-01-01T00:00:00.000Z'],
+  ]);
+});
+
+test('--deleted-after selects by the folded trash time', async () => {
+  await writeCompactedLog();
+  const { code, output } = await gphotos('restore', '--log', 'scan.log', '--deleted-after', '2026-09-30', '--dry-run');
+  assert.equal(code, 0, output);
+  assert.match(output, /2 trashed photos selected/);
+  assert.match(output, /Would restore A\.jpg/);
+  assert.match(output, /Would restore B\.jpg/);
+  assert.doesNotMatch(output, /C\.jpg/);
+});
+
+test('--run selects the photos trashed during that run', async () => {
+  await writeCompactedLog();
+  const run = { runId: 'run-1', command: 'delete', startedAt: '2026-10-01T09:59:00.000Z', endedAt: '2026-10-01T10:10:00.000Z' };
+  await writeFile(path.join(dir, 'runs.log'), JSON.stringify(run) + '\n', 'utf8');
+  const { code, output } = await gphotos('restore', '--log', 'scan.log', '--run', 'run-1', '--dry-run');
+  assert.equal(code, 0, output);
+  assert.match(output, /2 trashed photos selected/);
+  assert.doesNotMatch(output, /C\.jpg/);
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { upgradeEntry } from '../src/log-schema.js';
+import { classifyStorage, storageOf } from '../src/storage.js';
+
+test('a parsed size without the no-space message counts', () => {
+  assert.deepEqual(classifyStorage({ sizeText: 'File size: 1.2 MB', fileSize: '1.2 MB', notTakingSpace: false }),
+    { storage: 'counts', storageReason: 'File size: 1.2 MB' });
+});
+
+test('only the no-space message is free', () => {
+  assert.equal(classifyStorage({ sizeText: null, fileSize: null, notTakingSpace: true }).storage, 'free');
+});
+
+test('contradictory signals are unknown', () => {
+  assert.equal(classifyStorage({ sizeText: 'File size: 1.2 MB', fileSize: '1.2 MB', notTakingSpace: true }).storage, 'unknown');
+});
+
+test('a size that cannot be parsed is unknown, with or without the no-space message', () => {
+  for (const notTakingSpace of [false, true]) {
+    const { storage, storageReason } = classifyStorage({ sizeText: 'Dateigröße: 1,2 MB', fileSize: null, notTakingSpace });
+    assert.equal(storage, 'unknown');
+    assert.match(storageReason, /not understood/);
+  }
+});
+
+test('no signal at all is unknown', () => {
+  assert.equal(classifyStorage({ sizeText: null, fileSize: null, notTakingSpace: false }).storage, 'unknown');
+});
+
+test('storageOf falls back to free for entries without storage', () => {
+  assert.equal(storageOf({ free: true }), 'free');
+  assert.equal(storageOf({ free: false }), 'counts');
+  assert.equal(storageOf({ storage: 'unknown', free: true }), 'unknown');
+});
+
+test('version 1 lines are classified from notTakingSpace and fileSize', () => {
+  const upgrade = (entry: Record<string, unknown>) => upgradeEntry('photo', { id: 'A', filename: 'a.jpg', ...entry });
+  assert.equal(upgrade({ free: false, notTakingSpace: false, fileSize: '1 MB' }).storage, 'counts');
+  assert.equal(upgrade({ free: true, notTakingSpace: true, fileSize: null }).storage, 'free');
+  assert.equal(upgrade({ free: true, notTakingSpace: false, fileSize: null }).storage, 'unknown'); // no signal
+  assert.equal(upgrade({ free: true, notTakingSpace: true, fileSize: '1 MB' }).storage, 'unknown'); // both signals
+  assert.equal(upgrade({ free: false, notTakingSpace: false, fileSize: '1 MB' }).fileSizeBytes, 1024 * 1024);
+});
+
+test('version 1 lines without notTakingSpace use free', () => {
+  const upgrade = (entry: Record<string, unknown>) => upgradeEntry('photo', { id: 'A', filename: 'a.jpg', ...entry });
+  const free = upgrade({ free: true });
+  assert.equal(free.storage, 'free');
+  assert.equal(free.storageReason, 'from free in a version 1 line');
+  assert.equal(upgrade({ free: false, fileSize: '1 MB' }).storage, 'counts');
+});
+
+test('current lines are left as they are', () => {
+  const entry = { schema: 2, id: 'A', filename: 'a.jpg', free: false, storage: 'unknown', storageReason: 'x' };
+  assert.equal(upgradeEntry('photo', entry), entry);
+});
@@ -0,0 +1,126 @@
+/**
+ * `gphotos upload` against a stub adb: a shell script that copies pushed files into a
+ * local "phone" dir, runs `shell` commands (stat) locally and records every call.
+ */
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { chmod, mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { sha256File } from '../src/verify-download.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+
+/** Pushes of a file whose name contains $FAIL_PUSH fail, as with a full phone. */
+const STUB_ADB = `#!/bin/sh
+[ "$1" = -s ] && shift 2
+{ printf '%s\t' "$@"; echo; } >> "$ADB_CALLS"
+case "$1" in
+  get-state) echo device ;;
+  push)
+    case "$2" in *"$FAIL_PUSH"*) [ -n "$FAIL_PUSH" ] && { echo "adb: error: no space left" >&2; exit 1; } ;; esac
+    cp "$2" "$3" ;;
+  shell) case "$2" in am\\ *) echo "Broadcast completed" ;; *) sh -c "$2" ;; esac ;;
+esac
+`;
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'gphotos-upload-'));
+  for (const sub of ['downloads', 'done', 'phone']) await mkdir(path.join(dir, sub));
+  await writeFile(path.join(dir, 'adb'), STUB_ADB, 'utf8');
+  await chmod(path.join(dir, 'adb'), 0o755);
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** A downloaded file and its scan log entry; the name on disk may differ from the photo's filename. */
+async function download(id: string, filename: string, name = filename): Promise<object> {
+  const localPath = path.join(dir, 'downloads', name);
+  await writeFile(localPath, `photo ${id}`, 'utf8');
+  return { id, filename, free: false, storage: 'counts', fileSize: '1 KB', downloaded: true, localPath, sha256: await sha256File(localPath) };
+}
+
+async function writeLog(lines: object[]): Promise<void> {
+  await writeFile(path.join(dir, 'scan.log'), lines.map((line) => JSON.stringify(line) + '\n').join(''), 'utf8');
+}
+
+function runUpload(failPush = ''): Promise<{ code: number; output: string }> {
+  const args = [
+    path.join(ROOT, 'gphotos.ts'), 'upload', '--log', 'scan.log', '--photo-log', 'scan.log',
+    '--download-dir', 'downloads', '--done-dir', 'done', '--adb', path.join(dir, 'adb'), '--remote-dir', path.join(dir, 'phone'),
+  ];
+  const env = { ...process.env, ADB_CALLS: path.join(dir, 'adb-calls'), FAIL_PUSH: failPush };
+  return new Promise((resolve) => {
+    execFile(TSX, args, { cwd: dir, env, timeout: 60 * 1000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? (typeof error.code === 'number' ? error.code : 1) : 0, output: stdout + stderr });
+    });
+  });
+}
+
+async function pushedUpdates(): Promise<{ id: string; set: Record<string, unknown>; command: string }[]> {
+  const lines = (await readFile(path.join(dir, 'scan.log'), 'utf8')).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+  return lines.filter((line) => line.update === true && line.set.pushed === true);
+}
+
+async function pushedFiles(): Promise<string[]> {
+  const calls = await readFile(path.join(dir, 'adb-calls'), 'utf8').catch(() => '');
+  return calls.split('\n').filter((call) => call.startsWith('push\t')).map((call) => path.basename(call.split('\t')[1]));
+}
+
+test('pushes every download, records pushed on its own entry and moves it to done', async () => {
+  await writeLog([
+    await download('OLD1', 'IMG_0001.JPG'),
+    await download('OLD2', 'IMG_0001.JPG', 'IMG_0001 (1).JPG'),
+  ]);
+
+  const { code, output } = await runUpload();
+  assert.equal(code, 0, output);
+  assert.deepEqual((await readdir(path.join(dir, 'phone'))).sort(), ['IMG_0001 (1).JPG', 'IMG_0001.JPG']);
+  assert.deepEqual((await readdir(path.join(dir, 'done'))).sort(), ['IMG_0001 (1).JPG', 'IMG_0001.JPG']);
+  assert.deepEqual(await readdir(path.join(dir, 'downloads')), []);
+
+  const updates = await pushedUpdates();
+  assert.deepEqual(updates.map((u) => u.id).sort(), ['OLD1', 'OLD2']);
+  for (const update of updates) {
+    assert.equal(update.command, 'upload');
+    assert.ok(!isNaN(Date.parse(update.set.pushedAt as string)));
+  }
+});
+
+test('a failed push stays in the download dir and is the only file pushed by the next run', async () => {
+  await writeLog([await download('A', 'a.jpg'), await download('B', 'b.jpg')]);
+
+  const failed = await runUpload('b.jpg');
+  assert.notEqual(failed.code, 0);
+  assert.match(failed.output, /b\.jpg/);
+  assert.deepEqual(await readdir(path.join(dir, 'downloads')), ['b.jpg']);
+  assert.deepEqual((await pushedUpdates()).map((u) => u.id), ['A']);
+
+  await rm(path.join(dir, 'adb-calls'));
+  const retried = await runUpload();
+  assert.equal(retried.code, 0, retried.output);
+  assert.deepEqual(await pushedFiles(), ['b.jpg']);
+  assert.deepEqual((await pushedUpdates()).map((u) => u.id), ['A', 'B']);
+  assert.deepEqual(await readdir(path.join(dir, 'downloads')), []);
+});
+
+test('a file whose entry already says pushed is only moved, not pushed again', async () => {
+  await writeLog([
+    await download('A', 'a.jpg'),
+    await download('B', 'b.jpg'),
+    { update: true, id: 'A', set: { pushed: true, pushedAt: '2026-01-01T00:00:00.000Z' }, command: 'upload', at: '2026-01-01T00:00:00.000Z' },
+  ]);
+
+  const { code, output } = await runUpload();
+  assert.equal(code, 0, output);
+  assert.deepEqual(await pushedFiles(), ['b.jpg']);
+  assert.deepEqual((await readdir(path.join(dir, 'done'))).sort(), ['a.jpg', 'b.jpg']);
+  assert.deepEqual((await pushedUpdates()).map((u) => u.id), ['A', 'B']); // A's line from before, B's new one
+});